@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { findChangeContext, isTestFile } from './change-context.js';
+import type { ImportGraph } from './import-graph.js';
+
+const FILES = [
+  'src/billing/invoice.ts',
+  'src/billing/invoice.test.ts',
+  'src/billing/ledger.ts',
+  'src/api/routes.ts',
+  'src/cli/main.ts',
+  'test/e2e/checkout.spec.ts',
+  'pkg/tax/rate.go',
+  'pkg/tax/rate_test.go',
+];
+
+const GRAPH: ImportGraph = {
+  imports: {},
+  importers: {
+    'src/billing/invoice.ts': ['src/api/routes.ts', 'src/billing/ledger.ts', 'src/cli/main.ts', 'test/e2e/checkout.spec.ts'],
+  },
+};
+
+describe('isTestFile', () => {
+  it('should recognise common test naming schemes', () => {
+    expect(isTestFile('src/a.test.ts')).toBe(true);
+    expect(isTestFile('src/a.spec.js')).toBe(true);
+    expect(isTestFile('tests/test_a.py')).toBe(true);
+    expect(isTestFile('pkg/a_test.go')).toBe(true);
+    expect(isTestFile('src/__tests__/a.ts')).toBe(true);
+    expect(isTestFile('src/attest.ts')).toBe(false);
+  });
+});
+
+describe('findChangeContext', () => {
+  it('should pick tests by name and by import, then the nearest importers', () => {
+    const context = findChangeContext(['src/billing/invoice.ts'], FILES, GRAPH);
+
+    expect(context.changed).toEqual(['src/billing/invoice.ts']);
+    expect(context.tests).toEqual(['src/billing/invoice.test.ts', 'test/e2e/checkout.spec.ts']);
+    expect(context.importers).toEqual(['src/billing/ledger.ts', 'src/api/routes.ts']);
+  });
+
+  it('should match tests across languages', () => {
+    const context = findChangeContext(['pkg/tax/rate.go'], FILES, { imports: {}, importers: {} });
+    expect(context.tests).toEqual(['pkg/tax/rate_test.go']);
+  });
+
+  it('should drop deleted files and not repeat changed files as related', () => {
+    const context = findChangeContext(
+      ['src/gone.ts', 'src/billing/invoice.ts', 'src/billing/ledger.ts'],
+      FILES,
+      GRAPH,
+      { maxImportersPerFile: 1 }
+    );
+
+    expect(context.changed).toEqual(['src/billing/invoice.ts', 'src/billing/ledger.ts']);
+    expect(context.importers).toEqual(['src/api/routes.ts']);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Change Context
+ *
+ * Given the files changed since the last review, find the code worth
+ * attaching alongside them: their tests and their nearest importers.
+ */
+
+import { posix } from 'path';
+import type { ImportGraph } from './import-graph.js';
+
+export interface ChangeContext {
+  changed: string[];    // Changed files that still exist
+  tests: string[];      // Tests covering changed files
+  importers: string[];  // Nearest non-test files importing changed files
+}
+
+export interface ChangeContextOptions {
+  maxImportersPerFile?: number;
+  maxTestsPerFile?: number;
+}
+
+const TEST_STEM_PATTERNS = [/\.(test|spec)$/, /^test_/, /_test$/];
+
+/**
+ * Tests are matched by name (foo.test.ts, foo.spec.js, test_foo.py,
+ * foo_test.go) or by importing the changed file. Closest directories win.
+ * Only files in `allFiles` are returned, even if the graph knows more.
+ */
+export function findChangeContext(
+  changedFiles: string[],
+  allFiles: string[],
+  graph: ImportGraph,
+  options: ChangeContextOptions = {}
+): ChangeContext {
+  const { maxImportersPerFile = 2, maxTestsPerFile = 2 } = options;
+  const fileSet = new Set(allFiles);
+  const changed = changedFiles.filter(f => fileSet.has(f));
+  const changedSet = new Set(changed);
+
+  const tests = new Set<string>();
+  const importers = new Set<string>();
+
+  for (const file of changed) {
+    if (isTestFile(file)) continue;
+
+    const subject = stemOf(file);
+    const byName = allFiles.filter(f => isTestFile(f) && testSubject(f) === subject);
+    const importedBy = (graph.importers[file] || []).filter(f => fileSet.has(f));
+    const byImport = importedBy.filter(isTestFile);
+    const fileTests = nearest(file, unique([...byName, ...byImport]).filter(f => !changedSet.has(f)));
+    fileTests.slice(0, maxTestsPerFile).forEach(t => tests.add(t));
+
+    const fileImporters = importedBy.filter(f => !isTestFile(f) && !changedSet.has(f));
+    nearest(file, fileImporters).slice(0, maxImportersPerFile).forEach(i => importers.add(i));
+  }
+
+  return {
+    changed,
+    tests: Array.from(tests),
+    importers: Array.from(importers).filter(f => !tests.has(f)),
+  };
+}
+
+export function isTestFile(path: string): boolean {
+  const stem = stemOf(path);
+  return TEST_STEM_PATTERNS.some(p => p.test(stem)) ||
+    path.split('/').some(part => part === '__tests__');
+}
+
+function testSubject(path: string): string {
+  return TEST_STEM_PATTERNS.reduce((stem, p) => stem.replace(p, ''), stemOf(path));
+}
+
+function stemOf(path: string): string {
+  const base = posix.basename(path);
+  const dot = base.lastIndexOf('.');
+  return dot > 0 ? base.slice(0, dot) : base;
+}
+
+/**
+ * Sort candidates by directory distance from `file`, then by path.
+ */
+function nearest(file: string, candidates: string[]): string[] {
+  return [...candidates].sort((a, b) => dirDistance(file, a) - dirDistance(file, b) || a.localeCompare(b));
+}
+
+function dirDistance(a: string, b: string): number {
+  const da = posix.dirname(a).split('/');
+  const db = posix.dirname(b).split('/');
+  let common = 0;
+  while (common < da.length && common < db.length && da[common] === db[common]) common++;
+  return (da.length - common) + (db.length - common);
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
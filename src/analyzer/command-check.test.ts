@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { extractDocumentedCommands, findUnknownCommands } from './command-check.js';
+import type { RepoCommand } from './command-extractor.js';
+
+const defined: RepoCommand[] = [
+  { kind: 'npm-script', name: 'build', command: 'npm run build', source: 'package.json' },
+  { kind: 'npm-script', name: 'test', command: 'npm run test', source: 'package.json' },
+  { kind: 'npm-script', name: 'test:run', command: 'npm run test:run', source: 'package.json' },
+  { kind: 'make', name: 'docs', command: 'make docs', source: 'Makefile' },
+];
+
+describe('extractDocumentedCommands', () => {
+  it('should read shell blocks and inline code, splitting compound commands', () => {
+    const markdown = [
+      'Run `pnpm build` first.',
+      '```bash',
+      '$ pnpm install && pnpm test',
+      '```',
+      '```json',
+      '{ "make": "nothing" }',
+      '```',
+    ].join('\n');
+
+    expect(extractDocumentedCommands(markdown)).toEqual([
+      { command: 'pnpm build', line: 1 },
+      { command: 'pnpm install', line: 3 },
+      { command: 'pnpm test', line: 3 },
+    ]);
+  });
+});
+
+describe('findUnknownCommands', () => {
+  it('should flag scripts and targets the repo does not define', () => {
+    const markdown = [
+      '```sh',
+      'npm run build',
+      'pnpm lint',
+      'npm test',
+      'yarn test:run',
+      'make docs',
+      'make release',
+      '```',
+    ].join('\n');
+
+    expect(findUnknownCommands(markdown, defined)).toEqual([
+      { command: 'pnpm lint', line: 3, runner: 'pnpm', target: 'lint' },
+      { command: 'make release', line: 7, runner: 'make', target: 'release' },
+    ]);
+  });
+
+  it('should leave builtins, placeholders, other tools and unseen runners alone', () => {
+    const markdown = [
+      '`pnpm install`, `npm ci`, `npm run <script>`, `git status`, `bun test`',
+      '`pnpm --filter web dev`, `make -C docs html`, `just deploy`, `tox -e py312`',
+    ].join('\n');
+
+    expect(findUnknownCommands(markdown, defined)).toEqual([]);
+  });
+
+  it('should not report tools pnpm and yarn run from node_modules/.bin', () => {
+    const markdown = '`pnpm tsc`, `pnpm vitest run`, `yarn jest`, `yarn eslint .`';
+
+    expect(findUnknownCommands(markdown, defined)).toEqual([]);
+  });
+
+  it('should skip option values when picking the target', () => {
+    const commands: RepoCommand[] = [
+      ...defined,
+      { kind: 'just', name: 'recipe', command: 'just recipe', source: 'justfile' },
+    ];
+    const markdown = [
+      '```sh',
+      'make -j 4 docs',
+      'make -j docs',
+      'make -j 4 release',
+      'just --set x y recipe',
+      '```',
+    ].join('\n');
+
+    expect(findUnknownCommands(markdown, commands)).toEqual([
+      { command: 'make -j 4 release', line: 4, runner: 'make', target: 'release' },
+    ]);
+  });
+});
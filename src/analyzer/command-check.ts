@@ -0,0 +1,214 @@
+/**
+ * Command Check
+ *
+ * Model-free check of the commands a document cites against the ones the
+ * repository defines (see command-extractor). Only invocations of a known
+ * task runner can be verified — `npm run x`, `pnpm x`, `make x`, `just x`,
+ * `tox -e x`, `nox -s x`, `pdm run x`, `hatch run x` — anything else
+ * (git, curl, the tool under documentation) is left alone.
+ */
+
+import type { RepoCommand, CommandKind } from './command-extractor.js';
+
+export interface DocumentedCommand {
+  command: string;    // As written, one simple command
+  line: number;       // 1-based line in the document
+}
+
+export interface UnknownCommand extends DocumentedCommand {
+  runner: string;     // npm, make, just, ...
+  target: string;     // The script/target/recipe that doesn't exist
+}
+
+// npm-family subcommands that aren't scripts
+const PACKAGE_MANAGER_BUILTINS = new Set([
+  'install', 'i', 'ci', 'add', 'remove', 'rm', 'uninstall', 'update', 'up', 'upgrade', 'publish', 'init',
+  'create', 'exec', 'dlx', 'x', 'link', 'unlink', 'outdated', 'audit', 'why', 'list', 'ls', 'pack',
+  'version', 'config', 'login', 'logout', 'info', 'view', 'cache', 'prune', 'dedupe', 'rebuild', 'import',
+  'fetch', 'store', 'env', 'set', 'workspace', 'workspaces', 'help', 'bin', 'root', 'global',
+]);
+
+// Tools pnpm and yarn run straight from node_modules/.bin when no script has that name
+const PACKAGE_BINARIES = new Set([
+  'tsc', 'tsx', 'ts-node', 'node', 'vitest', 'jest', 'mocha', 'ava', 'c8', 'nyc', 'playwright', 'cypress',
+  'eslint', 'prettier', 'biome', 'stylelint', 'xo', 'standard', 'knip', 'vite', 'next', 'nuxt', 'astro',
+  'webpack', 'rollup', 'esbuild', 'tsup', 'turbo', 'nx', 'lerna', 'changeset', 'prisma', 'typedoc',
+  'storybook', 'nodemon', 'concurrently', 'rimraf', 'husky', 'lint-staged',
+]);
+
+// Options that take the next argument as their value, per runner. `make -j`
+// and `make -l` only do when it's a number, since both also stand alone.
+const VALUE_OPTIONS: Record<string, Record<string, number>> = {
+  make: { '-o': 1, '--old-file': 1, '--assume-old': 1, '-W': 1, '--what-if': 1, '--new-file': 1, '--assume-new': 1, '-I': 1, '--include-dir': 1 },
+  just: {
+    '--set': 2, '--shell': 1, '--shell-arg': 1, '--dotenv-filename': 1, '--dotenv-path': 1, '-E': 1, '--color': 1,
+    '--chooser': 1, '--dump-format': 1, '--list-heading': 1, '--list-prefix': 1, '--timestamp-format': 1,
+  },
+};
+
+const NUMERIC_OPTIONS = new Set(['-j', '--jobs', '-l', '--load-average', '--max-load']);
+
+const SHELL_LANGUAGES = new Set(['', 'bash', 'sh', 'shell', 'console', 'zsh', 'terminal']);
+
+// Runner -> the command kind that defines its targets
+export const RUNNER_KINDS: Record<string, CommandKind> = {
+  npm: 'npm-script',
+  pnpm: 'npm-script',
+  yarn: 'npm-script',
+  bun: 'npm-script',
+  make: 'make',
+  just: 'just',
+  tox: 'tox',
+  nox: 'nox',
+  pdm: 'python-script',
+  hatch: 'python-script',
+};
+
+/**
+ * Commands cited in shell code blocks and inline code spans.
+ * Compound lines are split on `&&`, `||`, `;` and `|`.
+ */
+export function extractDocumentedCommands(markdown: string): DocumentedCommand[] {
+  const found: DocumentedCommand[] = [];
+  const lines = markdown.split('\n');
+  let fence: { marker: string; shell: boolean } | null = null;
+
+  lines.forEach((text, index) => {
+    const line = index + 1;
+    const fenceMatch = text.match(/^\s*(`{3,}|~{3,})\s*([\w-]*)/);
+
+    if (fenceMatch) {
+      if (!fence) {
+        fence = { marker: fenceMatch[1], shell: SHELL_LANGUAGES.has(fenceMatch[2].toLowerCase()) };
+        return;
+      }
+      if (fenceMatch[1].startsWith(fence.marker) && !fenceMatch[2]) {
+        fence = null;
+        return;
+      }
+    }
+
+    if (fence) {
+      if (fence.shell) found.push(...splitCommands(text.replace(/^\s*[$>]\s+/, ''), line));
+      return;
+    }
+
+    for (const span of text.matchAll(/`([^`]+)`/g)) {
+      found.push(...splitCommands(span[1], line));
+    }
+  });
+
+  return found;
+}
+
+/**
+ * Documented task-runner invocations whose target the repository doesn't define.
+ */
+export function findUnknownCommands(markdown: string, commands: RepoCommand[]): UnknownCommand[] {
+  const defined = new Map<CommandKind, Set<string>>();
+  for (const command of commands) {
+    const names = defined.get(command.kind) || new Set<string>();
+    names.add(command.name);
+    // `hatch run test:cov` is also reachable as written
+    if (command.kind === 'python-script') names.add(command.command.replace(/^(?:pdm|hatch) run /, ''));
+    defined.set(command.kind, names);
+  }
+
+  const unknown: UnknownCommand[] = [];
+  for (const documented of extractDocumentedCommands(markdown)) {
+    const invocation = parseInvocation(documented.command);
+    if (!invocation) continue;
+
+    const kind = RUNNER_KINDS[invocation.runner];
+    const names = defined.get(kind);
+    // A runner with no definitions at all means we can't see its config (e.g. a generated Makefile)
+    if (!names || names.size === 0) continue;
+    if (!names.has(invocation.target)) {
+      unknown.push({ ...documented, runner: invocation.runner, target: invocation.target });
+    }
+  }
+  return unknown;
+}
+
+/**
+ * The runner and target of a verifiable invocation, or null.
+ */
+function parseInvocation(command: string): { runner: string; target: string } | null {
+  const tokens = command.split(/\s+/).filter(Boolean);
+  // Leading VAR=value assignments
+  while (tokens.length > 0 && /^[A-Za-z_][A-Za-z0-9_]*=/.test(tokens[0])) tokens.shift();
+
+  const [runner, ...args] = tokens;
+  if (!runner || !(runner in RUNNER_KINDS)) return null;
+  // Placeholders like `npm run <script>` or `make $(TARGET)`
+  if (args.some(a => /[<>{}$*]/.test(a))) return null;
+  // Flags that point at other files or packages can't be checked here
+  if (args.some(a => /^(-C|-f|--file|--prefix|--filter|-F|--workspace|--cwd|--dir|--justfile|--working-directory)$/.test(a))) return null;
+
+  const positional = positionals(runner, args);
+
+  switch (runner) {
+    case 'npm':
+    case 'pnpm':
+    case 'yarn':
+    case 'bun': {
+      const [first, second] = positional;
+      if (!first) return null;
+      if (first === 'run' || first === 'run-script') return second ? { runner, target: second } : null;
+      // `bun test` is bun's own test runner
+      if (runner === 'bun' && first === 'test') return null;
+      if (first === 'test' || first === 't' || first === 'start' || first === 'stop' || first === 'restart') {
+        return { runner, target: first === 't' ? 'test' : first };
+      }
+      // npm and bun only run scripts via `run`; pnpm and yarn accept bare names
+      if (runner === 'npm' || runner === 'bun' || PACKAGE_MANAGER_BUILTINS.has(first)) return null;
+      // ...which fall back to installed binaries, so a bare `pnpm tsc` can't be judged
+      if (PACKAGE_BINARIES.has(first)) return null;
+      return { runner, target: first };
+    }
+    case 'make':
+    case 'just': {
+      const target = positional.find(a => !a.includes('='));
+      return target ? { runner, target } : null;
+    }
+    case 'tox':
+    case 'nox': {
+      const flag = runner === 'tox' ? '-e' : '-s';
+      const index = args.indexOf(flag);
+      const target = index >= 0 ? args[index + 1]?.split(',')[0] : undefined;
+      return target ? { runner, target } : null;
+    }
+    case 'pdm':
+    case 'hatch':
+      return positional[0] === 'run' && positional[1] ? { runner, target: positional[1] } : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Arguments that aren't options or option values.
+ */
+function positionals(runner: string, args: string[]): string[] {
+  const valued = VALUE_OPTIONS[runner] ?? {};
+  const found: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('-')) {
+      found.push(arg);
+    } else if (arg in valued) {
+      i += valued[arg];
+    } else if (runner === 'make' && NUMERIC_OPTIONS.has(arg) && /^\d+(\.\d+)?$/.test(args[i + 1] ?? '')) {
+      i += 1;
+    }
+  }
+  return found;
+}
+
+function splitCommands(text: string, line: number): DocumentedCommand[] {
+  return text
+    .split(/&&|\|\||;|\|/)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(command => ({ command, line }));
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  extractCommands,
+  parseMakefileTargets,
+  parseJustfileRecipes,
+  parsePyprojectScripts,
+  parseToxEnvironments,
+  parseNoxSessions,
+  parseWorkflowRuns,
+} from './command-extractor.js';
+
+const names = (commands: Array<{ name: string }>) => commands.map(c => c.name);
+
+describe('parseMakefileTargets', () => {
+  it('should list targets but not variables, special or pattern targets', () => {
+    const makefile = [
+      'CC := gcc',
+      'VERSION = 1.0',
+      '.PHONY: build test',
+      'build: deps',
+      '\tgo build ./... # not: a target',
+      'test lint:',
+      '%.o: %.c',
+      'install:: build',
+    ].join('\n');
+
+    expect(names(parseMakefileTargets(makefile, 'Makefile'))).toEqual(['build', 'test', 'lint', 'install']);
+  });
+});
+
+describe('parseJustfileRecipes', () => {
+  it('should list recipes with parameters and aliases but not settings', () => {
+    const justfile = [
+      'set shell := ["bash", "-c"]',
+      'version := "1.0"',
+      'alias t := test',
+      'default: test',
+      '@test filter="":',
+      '  cargo test {{filter}}',
+      'release target:',
+    ].join('\n');
+
+    expect(names(parseJustfileRecipes(justfile, 'justfile')).sort()).toEqual(['default', 'release', 't', 'test']);
+  });
+});
+
+describe('parsePyprojectScripts', () => {
+  it('should read console scripts, pdm scripts and hatch env scripts', () => {
+    const pyproject = [
+      '[project.scripts]',
+      'shop = "shop.cli:main"',
+      '[tool.pdm.scripts]',
+      'lint = "ruff check ."',
+      '[tool.hatch.envs.default.scripts]',
+      'test = "pytest"',
+      '[tool.hatch.envs.docs.scripts]',
+      'build = "mkdocs build"',
+    ].join('\n');
+
+    expect(parsePyprojectScripts(pyproject, 'pyproject.toml').map(c => c.command))
+      .toEqual(['shop', 'pdm run lint', 'hatch run test', 'hatch run docs:build']);
+  });
+});
+
+describe('parseToxEnvironments / parseNoxSessions', () => {
+  it('should read the envlist and named test environments', () => {
+    const tox = '[tox]\nenvlist = py311, lint\n    docs\n\n[testenv:typecheck]\ncommands = mypy .\n';
+    expect(names(parseToxEnvironments(tox, 'tox.ini'))).toEqual(['py311', 'lint', 'docs', 'typecheck']);
+  });
+
+  it('should read session functions and explicit names', () => {
+    const noxfile = '@nox.session\ndef tests(session):\n    pass\n\n@nox.session(name="lint-all", python="3.12")\ndef lint(session):\n    pass\n';
+    expect(names(parseNoxSessions(noxfile, 'noxfile.py'))).toEqual(['tests', 'lint-all']);
+  });
+});
+
+describe('parseWorkflowRuns', () => {
+  it('should split multi-line run steps and drop comments', () => {
+    const workflow = [
+      'jobs:',
+      '  test:',
+      '    steps:',
+      '      - uses: actions/checkout@v4',
+      '      - run: pnpm install --frozen-lockfile',
+      '      - run: |',
+      '          # type-check first',
+      '          pnpm typecheck',
+      '          pnpm test:run',
+    ].join('\n');
+
+    expect(names(parseWorkflowRuns(workflow, '.github/workflows/ci.yml')))
+      .toEqual(['pnpm install --frozen-lockfile', 'pnpm typecheck', 'pnpm test:run']);
+  });
+});
+
+describe('extractCommands', () => {
+  let repoDir: string;
+
+  beforeEach(async () => {
+    repoDir = await mkdtemp(join(tmpdir(), 'auracoil-commands-'));
+  });
+
+  afterEach(async () => {
+    await rm(repoDir, { recursive: true });
+  });
+
+  it('should gather commands from every source with their file', async () => {
+    await writeFile(join(repoDir, 'package.json'), JSON.stringify({ scripts: { build: 'tsc', test: 'vitest' } }));
+    await writeFile(join(repoDir, 'Makefile'), 'docs:\n\tmkdocs build\n');
+    await mkdir(join(repoDir, '.cargo'));
+    await writeFile(join(repoDir, '.cargo', 'config.toml'), '[alias]\nxtask = "run --package xtask --"\n');
+    await mkdir(join(repoDir, 'node_modules', 'dep'), { recursive: true });
+    await writeFile(join(repoDir, 'node_modules', 'dep', 'package.json'), JSON.stringify({ scripts: { hidden: 'x' } }));
+
+    const commands = await extractCommands(repoDir);
+
+    expect(commands).toEqual([
+      { kind: 'npm-script', name: 'build', command: 'npm run build', source: 'package.json' },
+      { kind: 'npm-script', name: 'test', command: 'npm run test', source: 'package.json' },
+      { kind: 'make', name: 'docs', command: 'make docs', source: 'Makefile' },
+      { kind: 'cargo-alias', name: 'xtask', command: 'cargo xtask', source: '.cargo/config.toml' },
+    ]);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Command Extractor
+ *
+ * Collects the commands a repository actually defines, so docs can be
+ * checked against them:
+ * - package.json scripts            npm run <name>
+ * - Makefile targets                make <target>
+ * - justfile recipes                just <recipe>
+ * - .cargo/config.toml [alias]      cargo <alias>
+ * - pyproject scripts               <script>, pdm run / hatch run <name>
+ * - tox.ini environments            tox -e <env>
+ * - noxfile.py sessions             nox -s <session>
+ * - GitHub Actions `run:` steps     the command lines themselves
+ */
+
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { glob } from 'glob';
+import yaml from 'js-yaml';
+import { readTomlTables } from './manifest-parser.js';
+
+export type CommandKind = 'npm-script' | 'make' | 'just' | 'cargo-alias' | 'python-script' | 'tox' | 'nox' | 'ci';
+
+export interface RepoCommand {
+  kind: CommandKind;
+  name: string;       // Script, target, recipe, alias, env or session; the full line for CI steps
+  command: string;    // How to run it from the defining file's directory
+  source: string;     // Repo-relative file it came from
+}
+
+const IGNORE = ['**/node_modules/**', '**/.git/**', '**/dist/**', '**/build/**', '**/target/**', '**/vendor/**', '**/.venv/**', '**/venv/**'];
+
+// Make targets that are never invoked directly
+const MAKE_SPECIAL_TARGET = /^\.|%/;
+
+/**
+ * Every command defined in the repository, grouped by source file.
+ */
+export async function extractCommands(repoPath: string): Promise<RepoCommand[]> {
+  const commands: RepoCommand[] = [];
+  const sources: Array<[string, (content: string, source: string) => RepoCommand[]]> = [
+    ['**/package.json', parsePackageScripts],
+    ['**/{Makefile,makefile,GNUmakefile}', parseMakefileTargets],
+    ['**/{justfile,Justfile,.justfile}', parseJustfileRecipes],
+    ['**/.cargo/config{,.toml}', parseCargoAliases],
+    ['**/pyproject.toml', parsePyprojectScripts],
+    ['**/tox.ini', parseToxEnvironments],
+    ['**/noxfile.py', parseNoxSessions],
+    ['.github/workflows/*.{yml,yaml}', parseWorkflowRuns],
+  ];
+
+  for (const [pattern, parse] of sources) {
+    const files = await glob(pattern, { cwd: repoPath, ignore: IGNORE, nodir: true, dot: true });
+    for (const file of files.map(f => f.replace(/\\/g, '/')).sort()) {
+      try {
+        commands.push(...parse(await readFile(join(repoPath, file), 'utf-8'), file));
+      } catch {
+        // Unreadable or malformed — contributes nothing
+      }
+    }
+  }
+
+  return commands;
+}
+
+export function parsePackageScripts(content: string, source: string): RepoCommand[] {
+  const scripts = JSON.parse(content).scripts || {};
+  return Object.keys(scripts).map(name => ({ kind: 'npm-script', name, command: `npm run ${name}`, source }));
+}
+
+export function parseMakefileTargets(content: string, source: string): RepoCommand[] {
+  const targets = new Set<string>();
+  for (const match of content.matchAll(/^([A-Za-z0-9_.\-/ ]+?)\s*::?(?![:=])/gm)) {
+    for (const target of match[1].split(/\s+/)) {
+      if (target && !MAKE_SPECIAL_TARGET.test(target)) targets.add(target);
+    }
+  }
+  return Array.from(targets).map(name => ({ kind: 'make', name, command: `make ${name}`, source }));
+}
+
+export function parseJustfileRecipes(content: string, source: string): RepoCommand[] {
+  const recipes = new Set<string>();
+  for (const match of content.matchAll(/^@?([A-Za-z_][A-Za-z0-9_-]*)(?:\s+[^:\n]*)?:(?!=)/gm)) {
+    recipes.add(match[1]);
+  }
+  for (const match of content.matchAll(/^alias\s+([A-Za-z_][A-Za-z0-9_-]*)\s*:=/gm)) {
+    recipes.add(match[1]);
+  }
+  recipes.delete('set');
+  recipes.delete('export');
+  return Array.from(recipes).map(name => ({ kind: 'just', name, command: `just ${name}`, source }));
+}
+
+export function parseCargoAliases(content: string, source: string): RepoCommand[] {
+  const aliases = readTomlTables(content).alias || {};
+  return Object.keys(aliases).map(name => ({ kind: 'cargo-alias', name, command: `cargo ${name}`, source }));
+}
+
+export function parsePyprojectScripts(content: string, source: string): RepoCommand[] {
+  const tables = readTomlTables(content);
+  const commands: RepoCommand[] = [];
+
+  for (const table of ['project.scripts', 'tool.poetry.scripts']) {
+    for (const name of Object.keys(tables[table] || {})) {
+      commands.push({ kind: 'python-script', name, command: name, source });
+    }
+  }
+  for (const name of Object.keys(tables['tool.pdm.scripts'] || {})) {
+    commands.push({ kind: 'python-script', name, command: `pdm run ${name}`, source });
+  }
+  for (const [table, entries] of Object.entries(tables)) {
+    const env = table.match(/^tool\.hatch\.envs\.([^.]+)\.scripts$/)?.[1];
+    if (!env) continue;
+    for (const name of Object.keys(entries)) {
+      const command = env === 'default' ? `hatch run ${name}` : `hatch run ${env}:${name}`;
+      commands.push({ kind: 'python-script', name, command, source });
+    }
+  }
+
+  return commands;
+}
+
+export function parseToxEnvironments(content: string, source: string): RepoCommand[] {
+  const envs = new Set<string>();
+  const envlist = content.match(/^envlist\s*=\s*((?:.*\n?)(?:[ \t]+.*\n?)*)/m)?.[1] || '';
+  for (const env of envlist.split(/[\s,]+/)) {
+    if (env && !env.includes('{')) envs.add(env);
+  }
+  for (const match of content.matchAll(/^\[testenv:([^\]]+)\]/gm)) {
+    envs.add(match[1].trim());
+  }
+  return Array.from(envs).map(name => ({ kind: 'tox', name, command: `tox -e ${name}`, source }));
+}
+
+export function parseNoxSessions(content: string, source: string): RepoCommand[] {
+  const sessions = new Set<string>();
+  for (const match of content.matchAll(/@nox\.session\b(\([^)]*\))?\s*\ndef\s+(\w+)/g)) {
+    sessions.add(match[1]?.match(/name\s*=\s*['"]([^'"]+)['"]/)?.[1] ?? match[2]);
+  }
+  return Array.from(sessions).map(name => ({ kind: 'nox', name, command: `nox -s ${name}`, source }));
+}
+
+/**
+ * Each non-comment line of every `run:` step, in job order.
+ */
+export function parseWorkflowRuns(content: string, source: string): RepoCommand[] {
+  const workflow = yaml.load(content) as { jobs?: Record<string, { steps?: Array<{ run?: unknown }> }> } | null;
+  const lines = new Set<string>();
+
+  for (const job of Object.values(workflow?.jobs || {})) {
+    for (const step of job?.steps || []) {
+      if (typeof step?.run !== 'string') continue;
+      for (const line of step.run.split('\n')) {
+        const trimmed = line.trim();
+        if (trimmed && !trimmed.startsWith('#')) lines.add(trimmed);
+      }
+    }
+  }
+
+  return Array.from(lines).map(line => ({ kind: 'ci', name: line, command: line, source }));
+}
+
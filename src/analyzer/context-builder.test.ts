@@ -1,5 +1,9 @@
-import { describe, it, expect } from 'vitest';
-import { hashContent, getBundleHash, getBundleFiles, formatBundleSummary } from './context-builder.js';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { hashContent, getBundleHash, getBundleFiles, formatBundleSummary, buildAnalysisBundle } from './context-builder.js';
+import { indexRepository } from './repo-indexer.js';
 
 describe('Context Builder', () => {
   describe('hashContent', () => {
@@ -24,6 +28,9 @@ describe('Context Builder', () => {
   describe('getBundleFiles', () => {
     it('should flatten all file arrays', () => {
       const bundle = {
+        included: [],
+        changed: [],
+        related: [],
         manifests: ['package.json'],
         entrypoints: ['src/index.ts'],
         configs: ['tsconfig.json'],
@@ -44,6 +51,9 @@ describe('Context Builder', () => {
     it('should produce consistent hash for same bundle', () => {
       const hashes = new Map([['file1', 'abc123'], ['file2', 'def456']]);
       const bundle = {
+        included: [],
+        changed: [],
+        related: [],
         manifests: [],
         entrypoints: [],
         configs: [],
@@ -62,6 +72,9 @@ describe('Context Builder', () => {
   describe('formatBundleSummary', () => {
     it('should format bundle summary', () => {
       const bundle = {
+        included: [],
+        changed: [],
+        related: [],
         manifests: ['package.json'],
         entrypoints: ['src/index.ts'],
         configs: [],
@@ -77,4 +90,69 @@ describe('Context Builder', () => {
       expect(summary).toContain('5,000');
     });
   });
+
+  describe('buildAnalysisBundle', () => {
+    let repoDir: string;
+
+    beforeEach(async () => {
+      repoDir = await mkdtemp(join(tmpdir(), 'auracoil-bundle-'));
+      await writeFile(join(repoDir, 'package.json'), JSON.stringify({ name: 'demo' }));
+      await mkdir(join(repoDir, 'src', 'services'), { recursive: true });
+      await writeFile(join(repoDir, 'src', 'services', 'billing.ts'), 'export const bill = 1;\n');
+      await writeFile(join(repoDir, 'src', 'services', 'billing.gen.ts'), 'export const gen = 1;\n');
+      await mkdir(join(repoDir, 'schema'));
+      await writeFile(join(repoDir, 'schema', 'api.graphql'), 'type Query { ok: Boolean }\n');
+    });
+
+    afterEach(async () => {
+      await rm(repoDir, { recursive: true });
+    });
+
+    it('should honor .auracoilignore and force includePatterns in first', async () => {
+      await writeFile(join(repoDir, '.auracoilignore'), '*.gen.ts\nschema/\n');
+      const index = await indexRepository(repoDir);
+
+      const bundle = await buildAnalysisBundle(repoDir, index, {
+        includePatterns: ['schema/*.graphql'],
+      });
+
+      expect(bundle.included).toEqual(['schema/api.graphql']);
+      expect(bundle.samples).toEqual(['src/services/billing.ts']);
+      expect(getBundleFiles(bundle)).not.toContain('src/services/billing.gen.ts');
+    });
+
+    it('should put changed files, their tests and importers ahead of samples', async () => {
+      await writeFile(join(repoDir, 'src', 'services', 'billing.test.ts'), "import { bill } from './billing.js';\n");
+      await mkdir(join(repoDir, 'src', 'api'));
+      await writeFile(join(repoDir, 'src', 'api', 'charge.ts'), "import { bill } from '../services/billing.js';\n");
+      const index = await indexRepository(repoDir);
+
+      const bundle = await buildAnalysisBundle(repoDir, index, {}, ['src/services/billing.ts', 'src/removed.ts']);
+
+      expect(bundle.changed).toEqual(['src/services/billing.ts']);
+      expect(bundle.related).toEqual(['src/services/billing.test.ts', 'src/api/charge.ts']);
+      expect(bundle.samples).not.toContain('src/services/billing.ts');
+    });
+
+    it('should never attach Auracoil state, even when changed or forced in', async () => {
+      await mkdir(join(repoDir, '.auracoil', 'audit'), { recursive: true });
+      await writeFile(join(repoDir, '.auracoil', 'state.json'), '{}');
+      await writeFile(join(repoDir, '.auracoil', 'audit', 'review-1.json'), '{}');
+      const index = await indexRepository(repoDir);
+
+      const bundle = await buildAnalysisBundle(repoDir, index, { includePatterns: ['.auracoil/**'] },
+        ['.auracoil/state.json', '.auracoil/audit/review-1.json', 'src/services/billing.ts']);
+
+      expect(bundle.changed).toEqual(['src/services/billing.ts']);
+      expect(getBundleFiles(bundle).some(f => f.startsWith('.auracoil/'))).toBe(false);
+    });
+
+    it('should apply caller-provided excludePatterns to samples', async () => {
+      const index = await indexRepository(repoDir);
+
+      const bundle = await buildAnalysisBundle(repoDir, index, { excludePatterns: ['services/'] });
+
+      expect(bundle.samples).toEqual([]);
+    });
+  });
 });
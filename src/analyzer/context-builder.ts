@@ -8,11 +8,15 @@
 import { readFile, stat } from 'fs/promises';
 import { createHash } from 'crypto';
 import { join, relative } from 'path';
-import { glob } from 'glob';
 import type { RepoIndex } from './repo-indexer.js';
+import { loadPathFilter, type PathFilter } from './path-filter.js';
+import { findChangeContext, isTestFile } from './change-context.js';
 
 export interface AnalysisBundle {
+  included: string[];       // Forced in by includePatterns
   manifests: string[];      // package.json, Cargo.toml, etc.
+  changed: string[];        // Files changed since the last review
+  related: string[];        // Tests and nearest importers of changed files
   entrypoints: string[];    // main files by centrality
   configs: string[];        // tsconfig, lint, CI workflows
   docs: string[];           // README, ARCHITECTURE
@@ -25,11 +29,13 @@ export interface ContextConfig {
   maxFiles: number;
   maxTotalSize: number;     // bytes
   maxTokens: number;        // estimated
-  includePatterns: string[];
-  excludePatterns: string[];
+  includePatterns: string[];  // gitignore syntax; always bundled first
+  excludePatterns: string[];  // gitignore syntax; combined with .gitignore and .auracoilignore
 }
 
-const DEFAULT_CONFIG: ContextConfig = {
+type BundleCategory = keyof Pick<AnalysisBundle, 'included' | 'manifests' | 'changed' | 'related' | 'entrypoints' | 'configs' | 'docs' | 'samples'>;
+
+export const DEFAULT_CONFIG: ContextConfig = {
   maxFiles: 50,
   maxTotalSize: 500_000,    // 500KB
   maxTokens: 100_000,       // ~100K tokens
@@ -52,17 +58,27 @@ const DEFAULT_CONFIG: ContextConfig = {
 // Rough token estimation: ~4 chars per token
 const CHARS_PER_TOKEN = 4;
 
+// Auracoil's own state (index, findings, reviews, audit records) is never evidence
+const STATE_DIR = '.auracoil/';
+
 /**
- * Build an analysis bundle for Oracle
+ * Build an analysis bundle for Oracle. Files changed since the last
+ * review (repo-relative) go in right after manifests, with their tests
+ * and nearest importers.
  */
 export async function buildAnalysisBundle(
   repoPath: string,
   index: RepoIndex,
-  config: Partial<ContextConfig> = {}
+  config: Partial<ContextConfig> = {},
+  changedFiles: string[] = []
 ): Promise<AnalysisBundle> {
   const cfg = { ...DEFAULT_CONFIG, ...config };
+  const filter = await loadPathFilter(repoPath, cfg);
   const bundle: AnalysisBundle = {
+    included: [],
     manifests: [],
+    changed: [],
+    related: [],
     entrypoints: [],
     configs: [],
     docs: [],
@@ -75,7 +91,8 @@ export async function buildAnalysisBundle(
   let currentTokens = 0;
 
   // Helper to add file if within limits
-  const addFile = async (path: string, category: keyof Pick<AnalysisBundle, 'manifests' | 'entrypoints' | 'configs' | 'docs' | 'samples'>): Promise<boolean> => {
+  const addFile = async (path: string, category: BundleCategory): Promise<boolean> => {
+    if (bundle.contentHashes.has(path) || path.startsWith(STATE_DIR) || !filter.accepts(path)) return false;
     const fullPath = join(repoPath, path);
 
     try {
@@ -87,7 +104,7 @@ export async function buildAnalysisBundle(
       // Check limits
       if (currentSize + size > cfg.maxTotalSize) return false;
       if (currentTokens + tokens > cfg.maxTokens) return false;
-      if (bundle.manifests.length + bundle.entrypoints.length + bundle.configs.length + bundle.docs.length + bundle.samples.length >= cfg.maxFiles) {
+      if (getTotalFiles(bundle) >= cfg.maxFiles) {
         return false;
       }
 
@@ -104,12 +121,30 @@ export async function buildAnalysisBundle(
     }
   };
 
+  // Priority 0: Files forced in by includePatterns
+  for (const file of await filter.forcedFiles(repoPath)) {
+    await addFile(file, 'included');
+  }
+
   // Priority 1: Manifests (always include)
   for (const manifest of index.manifests) {
     await addFile(manifest.path, 'manifests');
   }
 
-  // Priority 2: Documentation (README, ARCHITECTURE, etc.)
+  // Priority 2: What changed, then the tests and importers around it
+  if (changedFiles.length > 0) {
+    const sourceFiles = index.ranking.map(r => r.path).filter(f => filter.accepts(f));
+    // Non-code changes (docs, configs) count too; deleted files fail addFile
+    const context = findChangeContext(changedFiles, [...new Set([...sourceFiles, ...changedFiles])], index.graph);
+    for (const file of context.changed) {
+      await addFile(file, 'changed');
+    }
+    for (const file of [...context.tests, ...context.importers]) {
+      await addFile(file, 'related');
+    }
+  }
+
+  // Priority 3: Documentation (README, ARCHITECTURE, etc.)
   const docPriority = ['README.md', 'ARCHITECTURE.md', 'CONTRIBUTING.md', 'AGENTS.md'];
   for (const doc of docPriority) {
     const match = index.docs.find(d => d.toLowerCase() === doc.toLowerCase());
@@ -125,7 +160,7 @@ export async function buildAnalysisBundle(
     }
   }
 
-  // Priority 3: Config files
+  // Priority 4: Config files
   const configPriority = [
     'tsconfig.json',
     '.eslintrc.json',
@@ -145,14 +180,14 @@ export async function buildAnalysisBundle(
     }
   }
 
-  // Priority 4: Entry points
+  // Priority 5: Entry points (already ordered by centrality)
   for (const entry of index.entrypoints) {
     await addFile(entry, 'entrypoints');
   }
 
-  // Priority 5: Sample code files (pick representative ones)
-  const samples = await selectRepresentativeSamples(repoPath, index, cfg.maxFiles - getTotalFiles(bundle));
-  for (const sample of samples) {
+  // Priority 6: Sample code files (the most central ones)
+  for (const sample of selectRepresentativeSamples(index, filter)) {
+    if (getTotalFiles(bundle) >= cfg.maxFiles) break;
     await addFile(sample, 'samples');
   }
 
@@ -160,53 +195,14 @@ export async function buildAnalysisBundle(
 }
 
 /**
- * Select representative code samples based on:
- * - File centrality (imports/exports)
- * - Naming patterns (services, controllers, models, utils)
- * - Recency (recently modified)
+ * Candidate samples, best first: code files ranked by import-graph
+ * centrality and git recency. Tests are skipped — they sit at the edge
+ * of the graph and the change context already brings in the relevant ones.
  */
-async function selectRepresentativeSamples(
-  repoPath: string,
-  index: RepoIndex,
-  maxCount: number
-): Promise<string[]> {
-  if (maxCount <= 0) return [];
-
-  const samples: string[] = [];
-
-  // Find key architectural files
-  const architecturalPatterns = [
-    '**/services/**/*.{ts,js}',
-    '**/controllers/**/*.{ts,js}',
-    '**/models/**/*.{ts,js}',
-    '**/components/**/*.{tsx,jsx}',
-    '**/hooks/**/*.{ts,tsx}',
-    '**/utils/**/*.{ts,js}',
-    '**/lib/**/*.{ts,js}',
-    '**/api/**/*.{ts,js}',
-    '**/routes/**/*.{ts,js}',
-    '**/middleware/**/*.{ts,js}',
-  ];
-
-  for (const pattern of architecturalPatterns) {
-    if (samples.length >= maxCount) break;
-
-    const matches = await glob(pattern, {
-      cwd: repoPath,
-      ignore: DEFAULT_CONFIG.excludePatterns,
-      nodir: true,
-    });
-
-    // Take up to 2 files from each pattern
-    for (const match of matches.slice(0, 2)) {
-      if (samples.length >= maxCount) break;
-      if (!samples.includes(match)) {
-        samples.push(match);
-      }
-    }
-  }
-
-  return samples;
+function selectRepresentativeSamples(index: RepoIndex, filter: PathFilter): string[] {
+  return index.ranking
+    .map(r => r.path)
+    .filter(path => !isTestFile(path) && filter.accepts(path));
 }
 
 /**
@@ -229,7 +225,10 @@ export function getBundleHash(bundle: AnalysisBundle): string {
  */
 export function getBundleFiles(bundle: AnalysisBundle): string[] {
   return [
+    ...bundle.included,
     ...bundle.manifests,
+    ...bundle.changed,
+    ...bundle.related,
     ...bundle.entrypoints,
     ...bundle.configs,
     ...bundle.docs,
@@ -238,7 +237,10 @@ export function getBundleFiles(bundle: AnalysisBundle): string[] {
 }
 
 function getTotalFiles(bundle: AnalysisBundle): number {
-  return bundle.manifests.length +
+  return bundle.included.length +
+    bundle.manifests.length +
+    bundle.changed.length +
+    bundle.related.length +
     bundle.entrypoints.length +
     bundle.configs.length +
     bundle.docs.length +
@@ -251,7 +253,10 @@ function getTotalFiles(bundle: AnalysisBundle): number {
 export function formatBundleSummary(bundle: AnalysisBundle): string {
   return `
 Analysis Bundle:
+  Included:     ${bundle.included.length} files
   Manifests:    ${bundle.manifests.length} files
+  Changed:      ${bundle.changed.length} files
+  Related:      ${bundle.related.length} files
   Entrypoints:  ${bundle.entrypoints.length} files
   Configs:      ${bundle.configs.length} files
   Docs:         ${bundle.docs.length} files
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { rankFiles } from './file-ranking.js';
+import { parseRecencyLog } from './git-recency.js';
+
+describe('rankFiles', () => {
+  const graph = {
+    imports: {
+      'src/index.ts': ['src/config.ts', 'src/server.ts'],
+      'src/server.ts': ['src/config.ts'],
+      'src/cli.ts': ['src/config.ts'],
+    },
+    importers: {
+      'src/config.ts': ['src/cli.ts', 'src/index.ts', 'src/server.ts'],
+      'src/server.ts': ['src/index.ts'],
+    },
+  };
+  const files = ['src/cli.ts', 'src/config.ts', 'src/index.ts', 'src/orphan.ts', 'src/server.ts'];
+
+  it('should rank heavily imported files first', () => {
+    const ranking = rankFiles(files, graph);
+
+    expect(ranking.map(r => r.path)).toEqual([
+      'src/config.ts', 'src/server.ts', 'src/index.ts', 'src/cli.ts', 'src/orphan.ts',
+    ]);
+    expect(ranking[0]).toMatchObject({ fanIn: 3, fanOut: 0 });
+    expect(ranking[4].score).toBe(0);
+  });
+
+  it('should boost recently committed files', () => {
+    const now = Date.parse('2026-03-01T00:00:00Z');
+    const recency = { 'src/orphan.ts': now - 24 * 60 * 60 * 1000, 'src/cli.ts': now - 365 * 24 * 60 * 60 * 1000 };
+
+    const ranking = rankFiles(files, graph, recency, now);
+    const orphan = ranking.find(r => r.path === 'src/orphan.ts')!;
+
+    expect(orphan.score).toBeGreaterThan(1.4);
+    expect(orphan.lastCommitAt).toBe('2026-02-28T00:00:00.000Z');
+    expect(ranking.map(r => r.path).indexOf('src/orphan.ts')).toBeLessThan(ranking.map(r => r.path).indexOf('src/cli.ts'));
+  });
+});
+
+describe('parseRecencyLog', () => {
+  it('should keep the newest commit time per file', () => {
+    const output = '\0' + '1700000200\n\nsrc/a.ts\nsrc/b.ts\n' + '\0' + '1700000100\n\nsrc/a.ts\nREADME.md\n';
+
+    expect(parseRecencyLog(output)).toEqual({
+      'src/a.ts': 1700000200000,
+      'src/b.ts': 1700000200000,
+      'README.md': 1700000100000,
+    });
+  });
+});
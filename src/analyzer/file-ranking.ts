@@ -0,0 +1,53 @@
+/**
+ * File Ranking
+ *
+ * Scores source files by how central they are to the codebase:
+ * fan-in (how many files import it) weighs most, fan-out (how much it
+ * wires together) less, plus a bonus that halves every 30 days since
+ * the file's last commit. Log scaling keeps one giant hub from
+ * drowning out everything else.
+ */
+
+import type { ImportGraph } from './import-graph.js';
+
+export interface RankedFile {
+  path: string;
+  score: number;
+  fanIn: number;
+  fanOut: number;
+  lastCommitAt?: string;  // ISO timestamp; absent when not seen in recent history
+}
+
+const FAN_IN_WEIGHT = 2;
+const FAN_OUT_WEIGHT = 1;
+const RECENCY_WEIGHT = 1.5;
+const RECENCY_HALF_LIFE_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Rank files, highest score first (ties by path).
+ */
+export function rankFiles(
+  files: string[],
+  graph: ImportGraph,
+  recency: Record<string, number> = {},
+  now: number = Date.now()
+): RankedFile[] {
+  return files
+    .map(path => {
+      const fanIn = graph.importers[path]?.length ?? 0;
+      const fanOut = graph.imports[path]?.length ?? 0;
+      const committedAt = recency[path];
+
+      let score = FAN_IN_WEIGHT * Math.log2(1 + fanIn) + FAN_OUT_WEIGHT * Math.log2(1 + fanOut);
+      if (committedAt !== undefined) {
+        const ageDays = Math.max(0, now - committedAt) / DAY_MS;
+        score += RECENCY_WEIGHT * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+      }
+
+      const ranked: RankedFile = { path, score: Math.round(score * 1000) / 1000, fanIn, fanOut };
+      if (committedAt !== undefined) ranked.lastCommitAt = new Date(committedAt).toISOString();
+      return ranked;
+    })
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+}
@@ -0,0 +1,46 @@
+/**
+ * Git Recency
+ *
+ * When each file was last touched, from one `git log --name-only` pass
+ * over recent history. Files untouched in that window are simply absent.
+ */
+
+import { simpleGit } from 'simple-git';
+
+export const DEFAULT_RECENCY_COMMITS = 300;
+
+/**
+ * Repo-relative path -> epoch ms of the newest commit touching it.
+ * Empty outside a git repository.
+ */
+export async function getFileRecency(
+  repoPath: string,
+  maxCommits: number = DEFAULT_RECENCY_COMMITS
+): Promise<Record<string, number>> {
+  let output: string;
+  try {
+    output = await simpleGit(repoPath).raw([
+      'log', '--name-only', '--relative', '--format=%x00%ct', '-n', String(maxCommits),
+    ]);
+  } catch {
+    return {};
+  }
+  return parseRecencyLog(output);
+}
+
+/**
+ * Parse `git log --name-only --format=%x00%ct` output. Commits come
+ * newest first, so the first timestamp seen for a path wins.
+ */
+export function parseRecencyLog(output: string): Record<string, number> {
+  const recency: Record<string, number> = {};
+  for (const chunk of output.split('\0')) {
+    const [timestamp, ...paths] = chunk.split('\n').map(l => l.trim()).filter(Boolean);
+    const seconds = Number(timestamp);
+    if (!Number.isFinite(seconds)) continue;
+    for (const path of paths) {
+      recency[path] ??= seconds * 1000;
+    }
+  }
+  return recency;
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  extractJsImports,
+  resolveJsImport,
+  extractPythonImports,
+  resolvePythonImport,
+  extractGoImports,
+  buildImportGraph,
+} from './import-graph.js';
+
+describe('extractJsImports', () => {
+  it('should find static, side-effect, dynamic and require imports', () => {
+    const source = [
+      "import chalk from 'chalk';",
+      "import { a, type B } from './a.js';",
+      "import type { C } from '../c';",
+      "export * from './d';",
+      "import './polyfill';",
+      "const e = await import('./e.js');",
+      "const f = require('./f');",
+    ].join('\n');
+
+    expect(extractJsImports(source)).toEqual(['chalk', './a.js', '../c', './d', './polyfill', './e.js', './f']);
+  });
+});
+
+describe('resolveJsImport', () => {
+  const files = new Set(['src/a.ts', 'src/lib/index.ts', 'src/util.js']);
+
+  it('should map ESM .js specifiers to .ts sources', () => {
+    expect(resolveJsImport('src/main.ts', './a.js', files)).toBe('src/a.ts');
+  });
+
+  it('should resolve extensionless and directory imports', () => {
+    expect(resolveJsImport('src/main.ts', './util', files)).toBe('src/util.js');
+    expect(resolveJsImport('src/main.ts', './lib', files)).toBe('src/lib/index.ts');
+  });
+
+  it('should ignore packages and unknown files', () => {
+    expect(resolveJsImport('src/main.ts', 'chalk', files)).toBeNull();
+    expect(resolveJsImport('src/main.ts', './missing', files)).toBeNull();
+  });
+});
+
+describe('extractPythonImports', () => {
+  it('should find plain, aliased, from and relative imports', () => {
+    const source = [
+      'import os, app.db as db',
+      'from app.models import User, Order',
+      'from . import utils',
+      'from ..core import config',
+    ].join('\n');
+
+    expect(extractPythonImports(source)).toEqual([
+      'os', 'app.db', 'app.models.User', 'app.models.Order', 'app.models', '.utils', '..core.config', '..core',
+    ]);
+  });
+});
+
+describe('resolvePythonImport', () => {
+  const files = new Set(['app/__init__.py', 'app/db.py', 'app/api/views.py', 'app/api/utils.py', 'src/pkg/core.py']);
+
+  it('should resolve absolute modules from the root or src/', () => {
+    expect(resolvePythonImport('app/api/views.py', 'app.db', files)).toBe('app/db.py');
+    expect(resolvePythonImport('app/api/views.py', 'app', files)).toBe('app/__init__.py');
+    expect(resolvePythonImport('tests/test_core.py', 'pkg.core', files)).toBe('src/pkg/core.py');
+  });
+
+  it('should resolve relative modules from the importing package', () => {
+    expect(resolvePythonImport('app/api/views.py', '.utils', files)).toBe('app/api/utils.py');
+    expect(resolvePythonImport('app/api/views.py', '..db', files)).toBe('app/db.py');
+  });
+
+  it('should ignore stdlib and third-party modules', () => {
+    expect(resolvePythonImport('app/db.py', 'os', files)).toBeNull();
+    expect(resolvePythonImport('app/db.py', 'app.models.User', files)).toBeNull();
+  });
+});
+
+describe('extractGoImports', () => {
+  it('should find single and grouped imports', () => {
+    const source = [
+      'package main',
+      'import "fmt"',
+      'import (',
+      '  "os"',
+      '  store "example.com/demo/internal/store"',
+      ')',
+    ].join('\n');
+
+    expect(extractGoImports(source)).toEqual(['os', 'example.com/demo/internal/store', 'fmt']);
+  });
+});
+
+describe('buildImportGraph', () => {
+  let repoDir: string;
+
+  beforeEach(async () => {
+    repoDir = await mkdtemp(join(tmpdir(), 'auracoil-graph-'));
+    await mkdir(join(repoDir, 'src'));
+  });
+
+  afterEach(async () => {
+    await rm(repoDir, { recursive: true });
+  });
+
+  it('should record imports and reverse importers', async () => {
+    await writeFile(join(repoDir, 'src', 'a.ts'), "import { b } from './b.js';\n");
+    await writeFile(join(repoDir, 'src', 'b.ts'), 'export const b = 1;\n');
+    await writeFile(join(repoDir, 'src', 'c.ts'), "import { b } from './b.js';\nimport { a } from './a.js';\n");
+
+    const graph = await buildImportGraph(repoDir, ['src/a.ts', 'src/b.ts', 'src/c.ts']);
+
+    expect(graph.imports['src/c.ts']).toEqual(['src/a.ts', 'src/b.ts']);
+    expect(graph.importers['src/b.ts']).toEqual(['src/a.ts', 'src/c.ts']);
+    expect(graph.imports['src/b.ts']).toBeUndefined();
+  });
+
+  it('should link Python modules', async () => {
+    await mkdir(join(repoDir, 'app'));
+    await writeFile(join(repoDir, 'app', '__init__.py'), '');
+    await writeFile(join(repoDir, 'app', 'db.py'), 'import sqlite3\n');
+    await writeFile(join(repoDir, 'app', 'views.py'), 'from .db import connect\nfrom app import db\n');
+
+    const graph = await buildImportGraph(repoDir, ['app/__init__.py', 'app/db.py', 'app/views.py']);
+
+    expect(graph.imports['app/views.py']).toEqual(['app/__init__.py', 'app/db.py']);
+    expect(graph.imports['app/db.py']).toBeUndefined();
+  });
+
+  it('should link Go packages under the go.mod module path', async () => {
+    await writeFile(join(repoDir, 'go.mod'), 'module example.com/demo\n\ngo 1.22\n');
+    await mkdir(join(repoDir, 'store'));
+    await writeFile(join(repoDir, 'store', 'store.go'), 'package store\n');
+    await writeFile(join(repoDir, 'store', 'cache.go'), 'package store\n');
+    await writeFile(join(repoDir, 'store', 'store_test.go'), 'package store\n');
+    await writeFile(join(repoDir, 'main.go'), 'package main\n\nimport (\n  "fmt"\n  "example.com/demo/store"\n)\n');
+
+    const files = ['main.go', 'store/cache.go', 'store/store.go', 'store/store_test.go'];
+    const graph = await buildImportGraph(repoDir, files);
+
+    expect(graph.imports['main.go']).toEqual(['store/cache.go', 'store/store.go']);
+    expect(graph.importers['store/store_test.go']).toBeUndefined();
+  });
+});
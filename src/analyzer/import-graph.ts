@@ -0,0 +1,236 @@
+/**
+ * Import Graph
+ *
+ * Lightweight, regex-based map of which files import which:
+ * - TS/JS: relative imports, requires and dynamic imports
+ * - Python: `import a.b` / `from .a import b`, resolved from the repo
+ *   root, src/ and the importing file's package
+ * - Go: imports under the module path declared in the root go.mod
+ *
+ * Anything that doesn't resolve to a repo file (packages, stdlib) is dropped.
+ */
+
+import { readFile } from 'fs/promises';
+import { join, posix } from 'path';
+
+export interface ImportGraph {
+  imports: Record<string, string[]>;    // file -> repo files it imports
+  importers: Record<string, string[]>;  // file -> repo files that import it
+}
+
+const JS_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+const PYTHON_IMPORT = /^[ \t]*import[ \t]+([\w. \t,]+)/gm;
+const PYTHON_FROM_IMPORT = /^[ \t]*from[ \t]+(\.*[\w.]*)[ \t]+import[ \t]+(?:\(([\w\s,]+)\)|([\w \t,]+))/gm;
+const PYTHON_ROOTS = ['', 'src/'];
+
+const GO_IMPORT_BLOCK = /\bimport\s*\(([\s\S]*?)\)/g;
+const GO_IMPORT_SINGLE = /\bimport\s+(?:[\w.]+\s+)?"([^"]+)"/g;
+
+const JS_IMPORT_PATTERNS = [
+  /\b(?:import|export)\s+(?:type\s+)?[^'"`;]*?\bfrom\s*['"]([^'"]+)['"]/g,  // import x from '...'
+  /\bimport\s*['"]([^'"]+)['"]/g,                                             // import '...'
+  /\bimport\(\s*['"]([^'"]+)['"]\s*\)/g,                                      // import('...')
+  /\brequire\(\s*['"]([^'"]+)['"]\s*\)/g,                                     // require('...')
+];
+
+/**
+ * Module specifiers referenced by a JS/TS source file.
+ */
+export function extractJsImports(content: string): string[] {
+  const specifiers = new Set<string>();
+  for (const pattern of JS_IMPORT_PATTERNS) {
+    for (const match of content.matchAll(pattern)) {
+      specifiers.add(match[1]);
+    }
+  }
+  return Array.from(specifiers);
+}
+
+/**
+ * Resolve a relative specifier to a repo file. Handles extensionless
+ * imports, directory index files and ESM-style `.js` imports of `.ts` sources.
+ */
+export function resolveJsImport(from: string, specifier: string, files: Set<string>): string | null {
+  if (!specifier.startsWith('.')) return null;
+
+  const target = posix.normalize(posix.join(posix.dirname(from), specifier));
+  const stem = target.replace(/\.(m|c)?jsx?$/, '');
+  const candidates = [
+    target,
+    ...JS_EXTENSIONS.map(ext => stem + ext),
+    ...JS_EXTENSIONS.map(ext => `${target}/index${ext}`),
+  ];
+
+  return candidates.find(c => files.has(c)) ?? null;
+}
+
+/**
+ * Modules referenced by a Python file. `from a import b` yields both
+ * `a.b` (b may be a submodule) and `a`; leading dots are kept.
+ */
+export function extractPythonImports(content: string): string[] {
+  const modules = new Set<string>();
+
+  for (const match of content.matchAll(PYTHON_IMPORT)) {
+    for (const part of match[1].split(',')) {
+      modules.add(part.trim().split(/\s+/)[0]);
+    }
+  }
+
+  for (const match of content.matchAll(PYTHON_FROM_IMPORT)) {
+    const base = match[1];
+    const names = match[2] ?? match[3];
+    for (const name of names.split(',').map(n => n.trim().split(/\s+/)[0]).filter(Boolean)) {
+      modules.add(base.endsWith('.') ? base + name : `${base}.${name}`);
+    }
+    if (!/^\.+$/.test(base)) modules.add(base);
+  }
+
+  return Array.from(modules);
+}
+
+/**
+ * Resolve a dotted module to `mod.py` or `mod/__init__.py`. Relative
+ * modules start from the importing file's package; absolute ones from
+ * the repo root or src/.
+ */
+export function resolvePythonImport(from: string, module: string, files: Set<string>): string | null {
+  const dots = module.match(/^\.*/)![0].length;
+  const parts = module.slice(dots).split('.').filter(Boolean);
+  if (parts.length === 0) return null;
+
+  let roots: string[];
+  if (dots > 0) {
+    let dir = posix.dirname(from);
+    for (let i = 1; i < dots; i++) dir = posix.dirname(dir);
+    roots = [dir === '.' ? '' : `${dir}/`];
+  } else {
+    roots = PYTHON_ROOTS;
+  }
+
+  for (const root of roots) {
+    const stem = root + parts.join('/');
+    for (const candidate of [`${stem}.py`, `${stem}/__init__.py`]) {
+      if (files.has(candidate)) return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Package paths imported by a Go file.
+ */
+export function extractGoImports(content: string): string[] {
+  const imports = new Set<string>();
+  for (const block of content.matchAll(GO_IMPORT_BLOCK)) {
+    for (const match of block[1].matchAll(/"([^"]+)"/g)) imports.add(match[1]);
+  }
+  for (const match of content.matchAll(GO_IMPORT_SINGLE)) {
+    imports.add(match[1]);
+  }
+  return Array.from(imports);
+}
+
+/**
+ * A Go import names a package (directory); every non-test file in it is a target.
+ */
+export function resolveGoImport(specifier: string, modulePath: string | null, goFilesByDir: Map<string, string[]>): string[] {
+  if (!modulePath) return [];
+  if (specifier !== modulePath && !specifier.startsWith(`${modulePath}/`)) return [];
+  const dir = specifier === modulePath ? '.' : specifier.slice(modulePath.length + 1);
+  return goFilesByDir.get(dir) || [];
+}
+
+/**
+ * Raw import specifiers for any supported file; empty for other languages.
+ */
+export function extractImports(file: string, content: string): string[] {
+  const ext = posix.extname(file);
+  if (ext === '.py') return extractPythonImports(content);
+  if (ext === '.go') return extractGoImports(content);
+  if (JS_EXTENSIONS.includes(ext)) return extractJsImports(content);
+  return [];
+}
+
+export function isGraphSource(file: string): boolean {
+  const ext = posix.extname(file);
+  return JS_EXTENSIONS.includes(ext) || ext === '.py' || ext === '.go';
+}
+
+/**
+ * Build the graph for the given repo-relative files.
+ */
+export async function buildImportGraph(repoPath: string, files: string[]): Promise<ImportGraph> {
+  const specifiers: Record<string, string[]> = {};
+  for (const file of files) {
+    if (!isGraphSource(file)) continue;
+    try {
+      specifiers[file] = extractImports(file, await readFile(join(repoPath, file), 'utf-8'));
+    } catch {
+      // Unreadable file
+    }
+  }
+  return resolveImportGraph(repoPath, files, specifiers);
+}
+
+/**
+ * Build the graph from already-extracted specifiers (see extractImports),
+ * so callers that cache them per file needn't re-read unchanged sources.
+ */
+export async function resolveImportGraph(
+  repoPath: string,
+  files: string[],
+  specifiers: Record<string, string[]>
+): Promise<ImportGraph> {
+  const fileSet = new Set(files);
+  const graph: ImportGraph = { imports: {}, importers: {} };
+
+  const goModule = await readGoModulePath(repoPath);
+  const goFilesByDir = new Map<string, string[]>();
+  for (const file of files) {
+    if (posix.extname(file) !== '.go' || file.endsWith('_test.go')) continue;
+    const dir = posix.dirname(file);
+    goFilesByDir.set(dir, [...(goFilesByDir.get(dir) || []), file]);
+  }
+
+  for (const file of files) {
+    const specs = specifiers[file];
+    if (!specs || specs.length === 0) continue;
+    const ext = posix.extname(file);
+
+    let targets: string[];
+    if (ext === '.py') {
+      targets = specs
+        .map(m => resolvePythonImport(file, m, fileSet))
+        .filter((t): t is string => t !== null);
+    } else if (ext === '.go') {
+      targets = specs.flatMap(spec => resolveGoImport(spec, goModule, goFilesByDir));
+    } else {
+      targets = specs
+        .map(spec => resolveJsImport(file, spec, fileSet))
+        .filter((t): t is string => t !== null);
+    }
+
+    // Same-package Go files don't import each other
+    const resolved = new Set(targets.filter(t => t !== file && !(ext === '.go' && posix.dirname(t) === posix.dirname(file))));
+    if (resolved.size === 0) continue;
+
+    graph.imports[file] = Array.from(resolved).sort();
+    for (const target of resolved) {
+      (graph.importers[target] ??= []).push(file);
+    }
+  }
+
+  for (const list of Object.values(graph.importers)) list.sort();
+  return graph;
+}
+
+async function readGoModulePath(repoPath: string): Promise<string | null> {
+  try {
+    const goMod = await readFile(join(repoPath, 'go.mod'), 'utf-8');
+    return goMod.match(/^module\s+(\S+)/m)?.[1] ?? null;
+  } catch {
+    return null;
+  }
+}
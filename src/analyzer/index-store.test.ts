@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { updateIndex, loadStoredIndex, findChangedFiles, INDEX_PATH } from './index-store.js';
+
+describe('index store', () => {
+  let repoDir: string;
+
+  beforeEach(async () => {
+    repoDir = await mkdtemp(join(tmpdir(), 'auracoil-index-'));
+    await mkdir(join(repoDir, 'src'));
+    await writeFile(join(repoDir, 'src', 'a.ts'), "import { b } from './b.js';\nexport const a = b;\n");
+    await writeFile(join(repoDir, 'src', 'b.ts'), 'export const b = 1;\n');
+  });
+
+  afterEach(async () => {
+    await rm(repoDir, { recursive: true });
+  });
+
+  it('should save per-file records and reload them', async () => {
+    const update = await updateIndex(repoDir);
+
+    expect(update).toMatchObject({ full: true, scanned: 2, reused: 0, removed: 0 });
+    const stored = await loadStoredIndex(repoDir);
+    expect(stored?.files['src/a.ts']).toMatchObject({ lines: 3, imports: ['./b.js'] });
+    expect(stored?.graph.importers['src/b.ts']).toEqual(['src/a.ts']);
+    expect(stored?.stats.lastModified).toBeInstanceOf(Date);
+  });
+
+  it('should rescan only modified files and drop deleted ones', async () => {
+    await updateIndex(repoDir);
+    await writeFile(join(repoDir, 'src', 'b.ts'), 'export const b = 2;\nexport const c = 3;\n');
+    await writeFile(join(repoDir, 'src', 'c.ts'), 'export const c = 1;\n');
+    await rm(join(repoDir, 'src', 'a.ts'));
+
+    const stored = await loadStoredIndex(repoDir);
+    expect((await findChangedFiles(repoDir, stored!)).sort()).toEqual(['src/a.ts', 'src/b.ts', 'src/c.ts']);
+
+    const update = await updateIndex(repoDir);
+    expect(update).toMatchObject({ full: false, scanned: 2, reused: 0, removed: 1 });
+    expect(update.index.files['src/b.ts'].lines).toBe(3);
+    expect(await findChangedFiles(repoDir, update.index)).toEqual([]);
+  });
+
+  it('should reuse records for untouched files', async () => {
+    await updateIndex(repoDir);
+    const update = await updateIndex(repoDir);
+
+    expect(update).toMatchObject({ full: false, scanned: 0, reused: 2 });
+  });
+
+  it('should rebuild from scratch with full or an older index format', async () => {
+    await updateIndex(repoDir);
+    expect(await updateIndex(repoDir, { full: true })).toMatchObject({ full: true, scanned: 2 });
+
+    await writeFile(join(repoDir, INDEX_PATH), JSON.stringify({ version: '1.0', indexed: new Date().toISOString() }));
+    expect(await loadStoredIndex(repoDir)).toBeNull();
+    expect(await updateIndex(repoDir)).toMatchObject({ full: true, scanned: 2 });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Index Store
+ *
+ * Persists the repo index to .auracoil/index.json so later runs only
+ * rescan what changed. A file is rescanned when its mtime or size moved,
+ * or when git reports it changed since the commit the index was built at
+ * (catches edits that preserve mtime, e.g. some checkouts and archive
+ * extractions).
+ */
+
+import { readFile, writeFile, mkdir, stat } from 'fs/promises';
+import { join, dirname } from 'path';
+import { simpleGit } from 'simple-git';
+import { indexRepository, listCodeFiles, type RepoIndex } from './repo-indexer.js';
+
+export const INDEX_PATH = join('.auracoil', 'index.json');
+
+// Bump when RepoIndex or FileRecord change shape; older files are rebuilt
+export const INDEX_VERSION = '2.1';
+
+export interface StoredIndex extends RepoIndex {
+  version: string;
+  indexed: string;        // ISO timestamp
+  head: string | null;    // HEAD when indexed
+}
+
+export interface IndexUpdate {
+  index: StoredIndex;
+  path: string;
+  full: boolean;          // No usable previous index
+  scanned: number;
+  reused: number;
+  removed: number;
+}
+
+/**
+ * The saved index, or null when missing, unreadable or from an older version.
+ */
+export async function loadStoredIndex(repoPath: string): Promise<StoredIndex | null> {
+  try {
+    const data = JSON.parse(await readFile(join(repoPath, INDEX_PATH), 'utf-8'));
+    if (data?.version !== INDEX_VERSION || !data.files) return null;
+    data.stats.lastModified = new Date(data.stats.lastModified);
+    return data as StoredIndex;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Re-index incrementally (or from scratch with `full`) and save the result.
+ */
+export async function updateIndex(repoPath: string, options: { full?: boolean } = {}): Promise<IndexUpdate> {
+  const previous = options.full ? null : await loadStoredIndex(repoPath);
+  const head = await getHead(repoPath);
+  const changed = previous?.head ? await changedSinceCommit(repoPath, previous.head) : undefined;
+
+  const repoIndex = await indexRepository(repoPath, { previous: previous?.files, changed });
+  const index: StoredIndex = {
+    version: INDEX_VERSION,
+    indexed: new Date().toISOString(),
+    head,
+    ...repoIndex,
+  };
+
+  const path = join(repoPath, INDEX_PATH);
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(index, null, 2) + '\n', 'utf-8');
+
+  const removed = previous ? Object.keys(previous.files).filter(f => !index.files[f]).length : 0;
+  return {
+    index,
+    path,
+    full: previous === null,
+    scanned: index.stats.scannedFiles,
+    reused: index.stats.totalFiles - index.stats.scannedFiles,
+    removed,
+  };
+}
+
+/**
+ * Code files added, modified or deleted since the index was saved.
+ * Only stats files — nothing is read.
+ */
+export async function findChangedFiles(repoPath: string, stored: StoredIndex): Promise<string[]> {
+  const current = await listCodeFiles(repoPath);
+  const changed: string[] = [];
+
+  for (const file of current) {
+    const record = stored.files[file];
+    if (!record) {
+      changed.push(file);
+      continue;
+    }
+    try {
+      const stats = await stat(join(repoPath, file));
+      if (stats.mtimeMs !== record.mtimeMs || stats.size !== record.size) changed.push(file);
+    } catch {
+      // Vanished between glob and stat
+    }
+  }
+
+  const present = new Set(current);
+  changed.push(...Object.keys(stored.files).filter(f => !present.has(f)));
+  return changed;
+}
+
+async function getHead(repoPath: string): Promise<string | null> {
+  try {
+    return (await simpleGit(repoPath).revparse(['HEAD'])).trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Files differing between `commit` and the working tree, or undefined
+ * when git can't tell (not a repo, commit gone after a rebase).
+ */
+async function changedSinceCommit(repoPath: string, commit: string): Promise<Set<string> | undefined> {
+  try {
+    const output = await simpleGit(repoPath).raw(['diff', '--name-only', '--relative', commit]);
+    return new Set(output.split('\n').map(l => l.trim()).filter(Boolean));
+  } catch {
+    return undefined;
+  }
+}
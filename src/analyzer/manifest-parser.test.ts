@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseCargoToml,
+  parsePyproject,
+  parseRequirements,
+  parseSetupPy,
+  parseGoMod,
+  parseGoWork,
+  parseGemfile,
+  parsePackageJson,
+  parsePnpmWorkspace,
+  readTomlTables,
+} from './manifest-parser.js';
+
+describe('readTomlTables', () => {
+  it('should read quoted and dotted keys, comments and multi-line arrays', () => {
+    const tables = readTomlTables([
+      'title = "demo # not a comment"  # a comment',
+      '[tool."poetry" . dependencies]',
+      'requests = "^2.31"',
+      '"typing_extensions" = "*"',
+      '[project]',
+      'dependencies = [',
+      '  "django>=5",  # pinned later',
+      '  "celery[redis]",',
+      ']',
+    ].join('\n'));
+
+    expect(tables[''].title).toBe('"demo # not a comment"');
+    expect(Object.keys(tables['tool.poetry.dependencies'])).toEqual(['requests', 'typing_extensions']);
+    expect(tables.project.dependencies).toContain('"celery[redis]"');
+  });
+});
+
+describe('parseCargoToml', () => {
+  it('should collect every dependency table, renames and workspace members', () => {
+    const manifest = parseCargoToml([
+      '[package]',
+      'name = "server"',
+      '',
+      '[dependencies]',
+      'tokio = { version = "1", features = ["full"] }',
+      'web = { package = "actix-web", version = "4" }',
+      'serde.workspace = true',
+      '',
+      '[dev-dependencies]',
+      'insta = "1"',
+      '',
+      "[target.'cfg(unix)'.dependencies]",
+      'nix = "0.27"',
+      '',
+      '[dependencies.tracing]',
+      'version = "0.1"',
+      '',
+      '[workspace]',
+      'members = ["crates/*", "tools/cli"]',
+    ].join('\n'));
+
+    expect(manifest.name).toBe('server');
+    expect(manifest.dependencies.sort()).toEqual(['actix-web', 'insta', 'nix', 'serde', 'tokio', 'tracing']);
+    expect(manifest.workspaces).toEqual(['crates/*', 'tools/cli']);
+  });
+});
+
+describe('parsePyproject', () => {
+  it('should read PEP 621 dependencies, extras and groups', () => {
+    const manifest = parsePyproject([
+      '[project]',
+      'name = "shop"',
+      'dependencies = ["Django>=5.0", "django_rest_framework ; python_version >= \'3.10\'"]',
+      '[project.optional-dependencies]',
+      'api = ["FastAPI[all]>=0.110"]',
+      '[dependency-groups]',
+      'test = ["pytest"]',
+      '[tool.uv.workspace]',
+      'members = ["packages/*"]',
+    ].join('\n'));
+
+    expect(manifest).toEqual({
+      name: 'shop',
+      dependencies: ['django', 'django-rest-framework', 'fastapi', 'pytest'],
+      workspaces: ['packages/*'],
+    });
+  });
+
+  it('should read Poetry dependencies without python itself', () => {
+    const manifest = parsePyproject([
+      '[tool.poetry]',
+      'name = "api"',
+      '[tool.poetry.dependencies]',
+      'python = "^3.11"',
+      'Flask = "^3.0"',
+      '[tool.poetry.group.dev.dependencies]',
+      'black = "*"',
+    ].join('\n'));
+
+    expect(manifest).toEqual({ name: 'api', dependencies: ['flask', 'black'] });
+  });
+});
+
+describe('parseRequirements', () => {
+  it('should skip options and comments and honor #egg names', () => {
+    const manifest = parseRequirements([
+      '# web',
+      'flask==3.0.0',
+      'SQLAlchemy[asyncio]>=2  # orm',
+      '-r base.txt',
+      '--hash=sha256:abc',
+      '-e git+https://github.com/org/lib.git#egg=my_lib',
+      'https://example.com/pkg.tar.gz',
+    ].join('\n'));
+
+    expect(manifest.dependencies).toEqual(['flask', 'sqlalchemy', 'my-lib']);
+  });
+});
+
+describe('parseSetupPy', () => {
+  it('should read literal name and install_requires', () => {
+    const manifest = parseSetupPy('setup(\n  name="legacy",\n  install_requires=[\n    "requests>=2",\n    "click",\n  ],\n)');
+    expect(manifest).toEqual({ name: 'legacy', dependencies: ['requests', 'click'] });
+  });
+});
+
+describe('parseGoMod / parseGoWork', () => {
+  it('should read the module path and requirements', () => {
+    const manifest = parseGoMod([
+      'module example.com/api // comment',
+      'go 1.22',
+      'require github.com/google/uuid v1.6.0',
+      'require (',
+      '  github.com/gin-gonic/gin v1.9.1',
+      '  golang.org/x/sys v0.18.0 // indirect',
+      ')',
+    ].join('\n'));
+
+    expect(manifest).toEqual({
+      name: 'example.com/api',
+      dependencies: ['github.com/gin-gonic/gin', 'golang.org/x/sys', 'github.com/google/uuid'],
+    });
+  });
+
+  it('should read go.work use directives as workspace members', () => {
+    expect(parseGoWork('go 1.22\n\nuse (\n  ./api\n  ./worker\n)\nuse ./tools\n').workspaces)
+      .toEqual(['./api', './worker', './tools']);
+  });
+});
+
+describe('parseGemfile', () => {
+  it('should read gems in every group', () => {
+    const manifest = parseGemfile([
+      "source 'https://rubygems.org'",
+      "gem 'rails', '~> 7.1'",
+      '# gem "unused"',
+      'group :test do',
+      '  gem "rspec-rails"',
+      'end',
+    ].join('\n'));
+
+    expect(manifest.dependencies).toEqual(['rails', 'rspec-rails']);
+  });
+});
+
+describe('parsePackageJson / parsePnpmWorkspace', () => {
+  it('should read every dependency kind and both workspaces forms', () => {
+    const manifest = parsePackageJson(JSON.stringify({
+      name: 'root',
+      dependencies: { react: '^18' },
+      devDependencies: { vitest: '^1' },
+      peerDependencies: { 'react-dom': '^18' },
+      workspaces: { packages: ['packages/*'] },
+    }));
+
+    expect(manifest).toEqual({ name: 'root', dependencies: ['react', 'vitest', 'react-dom'], workspaces: ['packages/*'] });
+    expect(parsePackageJson('{"workspaces": ["apps/*"]}').workspaces).toEqual(['apps/*']);
+  });
+
+  it('should read pnpm workspace globs', () => {
+    expect(parsePnpmWorkspace("packages:\n  - 'apps/*'\n  - packages/*\n")).toEqual(['apps/*', 'packages/*']);
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * Manifest Parser
+ *
+ * Pulls package names, dependency names and workspace members out of
+ * Cargo.toml, pyproject.toml, requirements.txt, setup.py, go.mod, go.work,
+ * Gemfile, package.json and pnpm-workspace.yaml. Versions are dropped —
+ * callers only need to know what a project depends on.
+ *
+ * TOML is read with a small line-based reader that understands tables,
+ * quoted and dotted keys, multi-line arrays and inline tables; that covers
+ * real-world manifests without pulling in a TOML dependency.
+ */
+
+import yaml from 'js-yaml';
+
+export interface ParsedManifest {
+  name?: string;
+  dependencies: string[];
+  workspaces?: string[];  // Member paths or globs, as declared
+}
+
+type TomlTables = Record<string, Record<string, string>>;
+
+const CARGO_DEP_TABLE = /^(?:workspace\.|target\..+\.)?(?:dev-|build-)?dependencies$/;
+
+/**
+ * Cargo.toml: [package], every dependency table (including target- and
+ * workspace-specific ones) and [workspace] members. Renamed dependencies
+ * report the real crate name.
+ */
+export function parseCargoToml(content: string): ParsedManifest {
+  const tables = readTomlTables(content);
+  const deps = new Set<string>();
+
+  for (const [table, entries] of Object.entries(tables)) {
+    if (CARGO_DEP_TABLE.test(table)) {
+      for (const [key, value] of Object.entries(entries)) {
+        deps.add(tomlInlineString(value, 'package') ?? key.split('.')[0]);
+      }
+      continue;
+    }
+
+    // [dependencies.serde] style
+    const split = table.lastIndexOf('.');
+    if (split > 0 && CARGO_DEP_TABLE.test(table.slice(0, split))) {
+      deps.add(tomlString(entries.package ?? '') ?? table.slice(split + 1));
+    }
+  }
+
+  const workspace = tables.workspace?.members;
+  return compact({
+    name: tomlString(tables.package?.name ?? ''),
+    dependencies: Array.from(deps),
+    workspaces: workspace ? tomlStringArray(workspace) : undefined,
+  });
+}
+
+/**
+ * pyproject.toml: PEP 621 [project] (plus optional-dependencies),
+ * PEP 735 [dependency-groups], Poetry and uv workspaces.
+ */
+export function parsePyproject(content: string): ParsedManifest {
+  const tables = readTomlTables(content);
+  const deps = new Set<string>();
+
+  const addRequirements = (value: string | undefined) => {
+    for (const req of value ? tomlStringArray(value) : []) {
+      const name = requirementName(req);
+      if (name) deps.add(name);
+    }
+  };
+
+  addRequirements(tables.project?.dependencies);
+  for (const value of Object.values(tables['project.optional-dependencies'] || {})) addRequirements(value);
+  for (const value of Object.values(tables['dependency-groups'] || {})) addRequirements(value);
+
+  for (const [table, entries] of Object.entries(tables)) {
+    if (/^tool\.poetry\.(?:(?:dev-)?dependencies|group\.[^.]+\.dependencies)$/.test(table)) {
+      for (const key of Object.keys(entries)) {
+        if (key !== 'python') deps.add(normalizePythonName(key));
+      }
+    }
+  }
+
+  const members = tables['tool.uv.workspace']?.members;
+  return compact({
+    name: tomlString(tables.project?.name ?? '') ?? tomlString(tables['tool.poetry']?.name ?? ''),
+    dependencies: Array.from(deps),
+    workspaces: members ? tomlStringArray(members) : undefined,
+  });
+}
+
+/**
+ * requirements.txt: one requirement per line. Options (-r, -e, --hash)
+ * are skipped except for `#egg=` names on VCS/URL lines.
+ */
+export function parseRequirements(content: string): ParsedManifest {
+  const deps = new Set<string>();
+  for (const raw of content.split('\n')) {
+    const line = raw.trim();
+    const egg = line.match(/#egg=([A-Za-z0-9._-]+)/);
+    if (egg) {
+      deps.add(normalizePythonName(egg[1]));
+      continue;
+    }
+    if (!line || line.startsWith('#') || line.startsWith('-') || line.includes('://')) continue;
+    const name = requirementName(line);
+    if (name) deps.add(name);
+  }
+  return { dependencies: Array.from(deps) };
+}
+
+/**
+ * setup.py: literal `name=` and `install_requires=[...]` only.
+ */
+export function parseSetupPy(content: string): ParsedManifest {
+  const name = content.match(/\bname\s*=\s*['"]([^'"]+)['"]/)?.[1];
+  const requires = content.match(/\binstall_requires\s*=\s*\[([\s\S]*?)\]/)?.[1] || '';
+  const deps = Array.from(requires.matchAll(/['"]([^'"]+)['"]/g))
+    .map(m => requirementName(m[1]))
+    .filter((n): n is string => n !== null);
+  return compact({ name, dependencies: unique(deps) });
+}
+
+/**
+ * go.mod: module path and required modules (direct and indirect).
+ */
+export function parseGoMod(content: string): ParsedManifest {
+  const lines = stripLineComments(content, '//');
+  const name = lines.match(/^\s*module\s+(\S+)/m)?.[1];
+  return compact({ name, dependencies: unique(goDirective(lines, 'require')) });
+}
+
+/**
+ * go.work: `use` directives are the workspace members.
+ */
+export function parseGoWork(content: string): ParsedManifest {
+  return { dependencies: [], workspaces: goDirective(stripLineComments(content, '//'), 'use') };
+}
+
+/**
+ * Gemfile: every `gem 'name'` line, whatever its group.
+ */
+export function parseGemfile(content: string): ParsedManifest {
+  const lines = stripLineComments(content, '#');
+  const deps = Array.from(lines.matchAll(/^\s*gem\s+['"]([^'"]+)['"]/gm)).map(m => m[1]);
+  return { dependencies: unique(deps) };
+}
+
+/**
+ * package.json: dependencies of every kind plus `workspaces`
+ * (array or Yarn's `{ packages }` form). Throws on invalid JSON.
+ */
+export function parsePackageJson(content: string): ParsedManifest {
+  const pkg = JSON.parse(content);
+  const deps = [
+    ...Object.keys(pkg.dependencies || {}),
+    ...Object.keys(pkg.devDependencies || {}),
+    ...Object.keys(pkg.peerDependencies || {}),
+    ...Object.keys(pkg.optionalDependencies || {}),
+  ];
+  const workspaces = Array.isArray(pkg.workspaces) ? pkg.workspaces : pkg.workspaces?.packages;
+  return compact({
+    name: typeof pkg.name === 'string' ? pkg.name : undefined,
+    dependencies: unique(deps),
+    workspaces: Array.isArray(workspaces) ? workspaces.filter((w: unknown) => typeof w === 'string') : undefined,
+  });
+}
+
+/**
+ * pnpm-workspace.yaml: the `packages` globs.
+ */
+export function parsePnpmWorkspace(content: string): string[] {
+  const data = yaml.load(content) as { packages?: unknown } | null;
+  return Array.isArray(data?.packages) ? data!.packages.filter((p): p is string => typeof p === 'string') : [];
+}
+
+/**
+ * PEP 508 requirement -> normalized distribution name.
+ */
+export function requirementName(requirement: string): string | null {
+  const match = requirement.trim().match(/^([A-Za-z0-9][A-Za-z0-9._-]*)/);
+  return match ? normalizePythonName(match[1]) : null;
+}
+
+/**
+ * PEP 503 normalization: lowercase, runs of `-_.` become `-`.
+ */
+export function normalizePythonName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, '-');
+}
+
+/**
+ * Table name -> key -> raw value text. Array-of-tables headers
+ * (`[[bin]]`) share one entry per name; only the last element survives,
+ * which is fine for the keys read here.
+ */
+export function readTomlTables(content: string): TomlTables {
+  const tables: TomlTables = { '': {} };
+  let current = '';
+  const lines = content.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = stripTomlComment(lines[i]).trim();
+    if (!line) continue;
+
+    const header = line.match(/^\[\[?\s*([^\]]+?)\s*\]\]?$/);
+    if (header) {
+      current = normalizeTomlKey(header[1]);
+      tables[current] ??= {};
+      continue;
+    }
+
+    const pair = line.match(/^((?:"[^"]*"|'[^']*'|[A-Za-z0-9_-]+)(?:\s*\.\s*(?:"[^"]*"|'[^']*'|[A-Za-z0-9_-]+))*)\s*=\s*(.*)$/);
+    if (!pair) continue;
+
+    // Multi-line arrays and strings continue until balanced
+    let value = pair[2];
+    while (i + 1 < lines.length && isUnterminated(value)) {
+      value += '\n' + stripTomlComment(lines[++i]);
+    }
+    tables[current][normalizeTomlKey(pair[1])] = value.trim();
+  }
+
+  return tables;
+}
+
+/**
+ * String values in a TOML array literal.
+ */
+export function tomlStringArray(value: string): string[] {
+  return Array.from(value.matchAll(/"((?:[^"\\]|\\.)*)"|'([^']*)'/g)).map(m => m[1] ?? m[2]);
+}
+
+function tomlString(value: string): string | undefined {
+  const match = value.trim().match(/^(?:"((?:[^"\\]|\\.)*)"|'([^']*)')$/);
+  return match ? (match[1] ?? match[2]) : undefined;
+}
+
+/**
+ * A string field inside an inline table: `{ package = "x", ... }`.
+ */
+function tomlInlineString(value: string, key: string): string | undefined {
+  if (!value.trim().startsWith('{')) return undefined;
+  const match = value.match(new RegExp(`\\b${key}\\s*=\\s*("[^"]*"|'[^']*')`));
+  return match ? tomlString(match[1]) : undefined;
+}
+
+function normalizeTomlKey(key: string): string {
+  return key
+    .split(/\s*\.\s*(?=(?:[^"']*["'][^"']*["'])*[^"']*$)/)
+    .map(part => part.trim().replace(/^(["'])(.*)\1$/, '$2'))
+    .join('.');
+}
+
+function stripTomlComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quote) {
+      if (c === '\\' && quote === '"') i++;
+      else if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === '#') {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+function isUnterminated(value: string): boolean {
+  const tripleQuotes = (value.match(/"""|'''/g) || []).length;
+  if (tripleQuotes % 2 === 1) return true;
+  const text = value.replace(/"(?:[^"\\]|\\.)*"|'[^']*'/g, '');
+  const depth = (text.match(/[[{]/g) || []).length - (text.match(/[\]}]/g) || []).length;
+  return depth > 0;
+}
+
+/**
+ * First field of each entry in a Go directive, single-line or block form.
+ */
+function goDirective(content: string, directive: string): string[] {
+  const entries: string[] = [];
+  for (const block of content.matchAll(new RegExp(`^\\s*${directive}\\s*\\(([\\s\\S]*?)\\)`, 'gm'))) {
+    for (const line of block[1].split('\n')) {
+      const entry = line.trim().split(/\s+/)[0];
+      if (entry) entries.push(entry);
+    }
+  }
+  for (const single of content.matchAll(new RegExp(`^\\s*${directive}\\s+([^\\s(]\\S*)`, 'gm'))) {
+    entries.push(single[1]);
+  }
+  return entries;
+}
+
+function stripLineComments(content: string, marker: string): string {
+  return content.split('\n').map(line => {
+    const index = line.indexOf(marker);
+    return index === -1 ? line : line.slice(0, index);
+  }).join('\n');
+}
+
+function compact(manifest: ParsedManifest): ParsedManifest {
+  const result: ParsedManifest = { dependencies: manifest.dependencies };
+  if (manifest.name) result.name = manifest.name;
+  if (manifest.workspaces) result.workspaces = manifest.workspaces;
+  return result;
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { PathFilter, parseIgnorePatterns, loadPathFilter } from './path-filter.js';
+
+function filter(exclude: string[], include: string[] = []): PathFilter {
+  return new PathFilter(parseIgnorePatterns(exclude), parseIgnorePatterns(include));
+}
+
+describe('PathFilter', () => {
+  it('should match unanchored patterns at any depth', () => {
+    const f = filter(['*.log', 'generated']);
+    expect(f.isExcluded('debug.log')).toBe(true);
+    expect(f.isExcluded('src/deep/trace.log')).toBe(true);
+    expect(f.isExcluded('src/generated/types.ts')).toBe(true);
+    expect(f.isExcluded('src/index.ts')).toBe(false);
+  });
+
+  it('should anchor patterns containing a slash', () => {
+    const f = filter(['/build', 'docs/*.md']);
+    expect(f.isExcluded('build/out.js')).toBe(true);
+    expect(f.isExcluded('packages/a/build/out.js')).toBe(false);
+    expect(f.isExcluded('docs/guide.md')).toBe(true);
+    expect(f.isExcluded('docs/api/guide.md')).toBe(false);
+  });
+
+  it('should treat a trailing slash as directory-only', () => {
+    const f = filter(['vendor/']);
+    expect(f.isExcluded('vendor', false)).toBe(false);
+    expect(f.isExcluded('vendor/lib.go')).toBe(true);
+  });
+
+  it('should support ** in every position', () => {
+    const f = filter(['**/node_modules/**', 'a/**/z.ts']);
+    expect(f.isExcluded('node_modules/x/index.js')).toBe(true);
+    expect(f.isExcluded('pkg/node_modules', true)).toBe(true);
+    expect(f.isExcluded('a/z.ts')).toBe(true);
+    expect(f.isExcluded('a/b/c/z.ts')).toBe(true);
+  });
+
+  it('should let later negations re-include files', () => {
+    const f = filter(['*.json', '!package.json']);
+    expect(f.isExcluded('data.json')).toBe(true);
+    expect(f.isExcluded('package.json')).toBe(false);
+  });
+
+  it('should not re-include files inside an excluded directory', () => {
+    const f = filter(['dist/', '!dist/keep.js']);
+    expect(f.isExcluded('dist/keep.js')).toBe(true);
+  });
+
+  it('should skip comments and blank lines and honor escapes', () => {
+    const f = filter(['# comment', '', '\\#notes.txt', 'file[0-9].txt']);
+    expect(f.isExcluded('#notes.txt')).toBe(true);
+    expect(f.isExcluded('file7.txt')).toBe(true);
+    expect(f.isExcluded('fileX.txt')).toBe(false);
+  });
+
+  it('should let include patterns override exclusions', () => {
+    const f = filter(['**/.env*'], ['.env.example']);
+    expect(f.accepts('.env')).toBe(false);
+    expect(f.accepts('.env.example')).toBe(true);
+  });
+});
+
+describe('loadPathFilter', () => {
+  let repoDir: string;
+
+  beforeEach(async () => {
+    repoDir = await mkdtemp(join(tmpdir(), 'auracoil-filter-'));
+  });
+
+  afterEach(async () => {
+    await rm(repoDir, { recursive: true });
+  });
+
+  it('should combine config, .gitignore and .auracoilignore', async () => {
+    await writeFile(join(repoDir, '.gitignore'), 'out/\n*.gen.ts\n');
+    await writeFile(join(repoDir, '.auracoilignore'), 'fixtures/\n!keep.gen.ts\n');
+    await mkdir(join(repoDir, 'pkg'));
+    await writeFile(join(repoDir, 'pkg', '.gitignore'), 'local.ts\n');
+
+    const f = await loadPathFilter(repoDir, { excludePatterns: ['*.min.js'] });
+
+    expect(f.isExcluded('app.min.js')).toBe(true);
+    expect(f.isExcluded('out/main.js')).toBe(true);
+    expect(f.isExcluded('src/api.gen.ts')).toBe(true);
+    expect(f.isExcluded('src/keep.gen.ts')).toBe(false);
+    expect(f.isExcluded('test/fixtures/big.json')).toBe(true);
+    expect(f.isExcluded('pkg/local.ts')).toBe(true);
+    expect(f.isExcluded('local.ts')).toBe(false);
+  });
+
+  it('should list forced files even when excluded', async () => {
+    await writeFile(join(repoDir, '.gitignore'), 'generated/\n');
+    await mkdir(join(repoDir, 'generated'));
+    await writeFile(join(repoDir, 'generated', 'schema.ts'), 'export {};\n');
+    await writeFile(join(repoDir, 'generated', 'other.ts'), 'export {};\n');
+
+    const f = await loadPathFilter(repoDir, { includePatterns: ['generated/schema.ts'] });
+    expect(await f.forcedFiles(repoDir)).toEqual(['generated/schema.ts']);
+  });
+});
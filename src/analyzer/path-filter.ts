@@ -0,0 +1,247 @@
+/**
+ * Path Filter
+ *
+ * Decides which repository files may go into the analysis bundle.
+ * Patterns use gitignore syntax: `#` comments, `!` negation, trailing `/`
+ * for directories, a leading or inner `/` anchors to the file's directory,
+ * `*`, `?`, `[...]` and `**`.
+ *
+ * Exclusions come from, in order (last match wins):
+ *   1. ContextConfig.excludePatterns
+ *   2. .gitignore files (root first, then nested)
+ *   3. .auracoilignore files (root first, then nested)
+ *
+ * ContextConfig.includePatterns force files in regardless of exclusions.
+ *
+ * One deliberate difference from git: `dir/**` also matches `dir` itself,
+ * so the walker can skip the whole directory.
+ */
+
+import { readFile } from 'fs/promises';
+import { join, dirname } from 'path';
+import { glob, type IgnoreLike } from 'glob';
+
+export interface IgnoreRule {
+  pattern: string;    // As written
+  source: string;     // 'config', '.gitignore', 'src/.auracoilignore', ...
+  base: string;       // Directory the pattern is relative to ('' = repo root)
+  negated: boolean;
+  dirOnly: boolean;
+  regex: RegExp;      // Matches paths relative to base
+}
+
+export interface PathFilterPatterns {
+  includePatterns?: string[];
+  excludePatterns?: string[];
+}
+
+export const IGNORE_FILES = ['.gitignore', '.auracoilignore'];
+
+// Never walked, whatever the rules say
+const ALWAYS_PRUNED = new Set(['.git', 'node_modules']);
+
+export class PathFilter {
+  constructor(
+    readonly excludeRules: IgnoreRule[],
+    readonly includeRules: IgnoreRule[] = []
+  ) {}
+
+  /**
+   * Excluded by config or ignore files. A path inside an excluded
+   * directory stays excluded, as in git.
+   */
+  isExcluded(path: string, isDir: boolean = false): boolean {
+    const parts = path.split('/');
+    for (let i = 1; i < parts.length; i++) {
+      if (matchRules(this.excludeRules, parts.slice(0, i).join('/'), true)) return true;
+    }
+    return matchRules(this.excludeRules, path, isDir);
+  }
+
+  /**
+   * Matched by includePatterns — goes into the bundle first.
+   */
+  isForced(path: string): boolean {
+    if (this.includeRules.length === 0) return false;
+    const parts = path.split('/');
+    for (let i = 1; i < parts.length; i++) {
+      if (matchRules(this.includeRules, parts.slice(0, i).join('/'), true)) return true;
+    }
+    return matchRules(this.includeRules, path, false);
+  }
+
+  accepts(path: string): boolean {
+    return this.isForced(path) || !this.isExcluded(path);
+  }
+
+  /**
+   * glob `ignore` option that applies this filter while walking.
+   */
+  globIgnore(): IgnoreLike {
+    return {
+      ignored: p => !this.accepts(p.relativePosix()),
+      childrenIgnored: p => {
+        const rel = p.relativePosix();
+        return ALWAYS_PRUNED.has(p.name) ||
+          (this.includeRules.length === 0 && this.isExcluded(rel, true));
+      },
+    };
+  }
+
+  /**
+   * Every file matched by includePatterns, sorted.
+   */
+  async forcedFiles(repoPath: string): Promise<string[]> {
+    if (this.includeRules.length === 0) return [];
+    const files = await glob('**/*', {
+      cwd: repoPath,
+      nodir: true,
+      dot: true,
+      ignore: { childrenIgnored: p => ALWAYS_PRUNED.has(p.name) },
+    });
+    return files.map(toPosix).filter(f => this.isForced(f)).sort();
+  }
+}
+
+/**
+ * Build a filter from config patterns plus every .gitignore and
+ * .auracoilignore in the repository.
+ */
+export async function loadPathFilter(repoPath: string, patterns: PathFilterPatterns = {}): Promise<PathFilter> {
+  const excludeRules = parseIgnorePatterns(patterns.excludePatterns || [], '', 'config');
+
+  for (const name of IGNORE_FILES) {
+    const files = await glob(`**/${name}`, {
+      cwd: repoPath,
+      dot: true,
+      nodir: true,
+      ignore: { childrenIgnored: p => ALWAYS_PRUNED.has(p.name) },
+    });
+
+    // Shallower first so nested files can override their parents
+    const sorted = files.map(toPosix).sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b));
+    for (const file of sorted) {
+      try {
+        const content = await readFile(join(repoPath, file), 'utf-8');
+        const base = dirname(file) === '.' ? '' : dirname(file);
+        excludeRules.push(...parseIgnorePatterns(content.split('\n'), base, file));
+      } catch {
+        // Unreadable ignore file
+      }
+    }
+  }
+
+  return new PathFilter(excludeRules, parseIgnorePatterns(patterns.includePatterns || [], '', 'config'));
+}
+
+/**
+ * Compile gitignore-style lines. Blank lines and comments are skipped.
+ */
+export function parseIgnorePatterns(lines: string[], base: string = '', source: string = 'config'): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const line of lines) {
+    const rule = compileIgnorePattern(line, base, source);
+    if (rule) rules.push(rule);
+  }
+  return rules;
+}
+
+export function compileIgnorePattern(line: string, base: string = '', source: string = 'config'): IgnoreRule | null {
+  let pattern = line.replace(/\r$/, '');
+  // Trailing spaces are ignored unless escaped
+  pattern = pattern.replace(/(?<!\\)\s+$/, '');
+  if (!pattern || pattern.startsWith('#')) return null;
+
+  let negated = false;
+  if (pattern.startsWith('!')) {
+    negated = true;
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+    pattern = pattern.slice(1);
+  }
+
+  let dirOnly = false;
+  if (pattern.endsWith('/')) {
+    dirOnly = true;
+    pattern = pattern.replace(/\/+$/, '');
+  }
+
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\//, '');
+  if (!pattern) return null;
+
+  const body = globToRegex(pattern);
+  const regex = new RegExp(`^${anchored ? '' : '(?:.*/)?'}${body}$`);
+
+  return { pattern: line.trim(), source, base, negated, dirOnly, regex };
+}
+
+function matchRules(rules: IgnoreRule[], path: string, isDir: boolean): boolean {
+  let matched = false;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDir) continue;
+    if (rule.base && !path.startsWith(`${rule.base}/`)) continue;
+    const rel = rule.base ? path.slice(rule.base.length + 1) : path;
+    if (rule.regex.test(rel)) matched = !rule.negated;
+  }
+  return matched;
+}
+
+function globToRegex(pattern: string): string {
+  let out = '';
+  let i = 0;
+
+  while (i < pattern.length) {
+    const c = pattern[i];
+
+    if (c === '*' && pattern[i + 1] === '*') {
+      const atStart = i === 0 || pattern[i - 1] === '/';
+      const next = pattern[i + 2];
+      if (atStart && next === '/') {
+        out += '(?:.*/)?';        // "**/" — zero or more directories
+        i += 3;
+        continue;
+      }
+      if (atStart && next === undefined && out.endsWith('/')) {
+        out = out.slice(0, -1) + '(?:/.*)?';   // "/**" — the directory and everything in it
+        i += 2;
+        continue;
+      }
+      out += '.*';
+      i += 2;
+      continue;
+    }
+
+    if (c === '*') {
+      out += '[^/]*';
+    } else if (c === '?') {
+      out += '[^/]';
+    } else if (c === '[') {
+      const end = pattern.indexOf(']', i + 2);
+      if (end === -1) {
+        out += '\\[';
+      } else {
+        let cls = pattern.slice(i + 1, end);
+        if (cls.startsWith('!')) cls = '^' + cls.slice(1);
+        out += `[${cls.replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else if (c === '\\' && i + 1 < pattern.length) {
+      out += escapeRegex(pattern[i + 1]);
+      i++;
+    } else {
+      out += escapeRegex(c);
+    }
+    i++;
+  }
+
+  return out;
+}
+
+function escapeRegex(c: string): string {
+  return c.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function toPosix(path: string): string {
+  return path.replace(/\\/g, '/');
+}
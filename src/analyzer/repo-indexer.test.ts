@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { buildDirectoryTree, indexRepository } from './repo-indexer.js';
+
+describe('buildDirectoryTree', () => {
+  const files = [
+    'README.md',
+    'src/index.ts',
+    'src/commands/review.ts',
+    'src/commands/apply.ts',
+    'src/commands/deep/nested/more/x.ts',
+    'scripts/build.sh',
+    'scripts/release.py',
+    'scripts/bump.py',
+    'docs/guide.md',
+  ];
+
+  it('should count files recursively and pick the dominant language', () => {
+    const tree = buildDirectoryTree(files);
+
+    expect(tree).toMatchObject({ path: '.', fileCount: 9, codeFileCount: 7, dominantLanguage: 'TypeScript' });
+    expect(tree.children.map(c => c.path)).toEqual(['docs', 'scripts', 'src']);
+
+    const [docs, scripts, src] = tree.children;
+    expect(docs).toMatchObject({ hasCode: false, fileCount: 1, codeFileCount: 0 });
+    expect(docs.dominantLanguage).toBeUndefined();
+    expect(scripts).toMatchObject({ hasCode: true, fileCount: 3, dominantLanguage: 'Python' });
+    expect(src.children[0]).toMatchObject({ path: 'src/commands', fileCount: 3 });
+  });
+
+  it('should stop descending at the depth limit but keep counting', () => {
+    const tree = buildDirectoryTree(files, 2);
+    const commands = tree.children[2].children[0];
+
+    expect(commands.path).toBe('src/commands');
+    expect(commands.children).toEqual([]);
+    expect(commands.fileCount).toBe(3);
+  });
+});
+
+describe('indexRepository manifests', () => {
+  let repoDir: string;
+
+  beforeEach(async () => {
+    repoDir = await mkdtemp(join(tmpdir(), 'auracoil-manifests-'));
+  });
+
+  afterEach(async () => {
+    await rm(repoDir, { recursive: true });
+  });
+
+  it('should detect frameworks from non-npm workspace members', async () => {
+    await writeFile(join(repoDir, 'Cargo.toml'), '[workspace]\nmembers = ["crates/*"]\n');
+    await mkdir(join(repoDir, 'crates', 'server'), { recursive: true });
+    await writeFile(join(repoDir, 'crates', 'server', 'Cargo.toml'), '[package]\nname = "server"\n[dependencies]\ntokio = "1"\n');
+    await mkdir(join(repoDir, 'web'));
+    await writeFile(join(repoDir, 'web', 'pyproject.toml'), '[project]\nname = "web"\ndependencies = ["fastapi"]\n');
+
+    const index = await indexRepository(repoDir);
+
+    expect(index.manifests.find(m => m.path === 'Cargo.toml')?.workspaces).toEqual(['crates/*']);
+    expect(index.manifests.find(m => m.path === 'crates/server/Cargo.toml')).toMatchObject({ name: 'server', dependencies: ['tokio'] });
+    expect(index.frameworks.sort()).toEqual(['FastAPI', 'Rust/Tokio']);
+  });
+});
@@ -6,11 +6,30 @@
  * - Entry points and key files
  * - Dependencies
  * - Project structure
+ * - Import graph and file centrality ranking
+ * - Commands the repo defines (scripts, targets, CI steps)
  */
 
 import { glob } from 'glob';
 import { readFile, stat } from 'fs/promises';
 import { join, basename, extname } from 'path';
+import { extractImports, isGraphSource, resolveImportGraph, type ImportGraph } from './import-graph.js';
+import { hashContent } from './context-builder.js';
+import { getFileRecency } from './git-recency.js';
+import { rankFiles, type RankedFile } from './file-ranking.js';
+import { extractCommands, type RepoCommand } from './command-extractor.js';
+import {
+  parsePackageJson,
+  parsePnpmWorkspace,
+  parseCargoToml,
+  parsePyproject,
+  parseRequirements,
+  parseSetupPy,
+  parseGoMod,
+  parseGoWork,
+  parseGemfile,
+  type ParsedManifest,
+} from './manifest-parser.js';
 
 export interface RepoIndex {
   languages: LanguageInfo[];
@@ -20,9 +39,26 @@ export interface RepoIndex {
   configs: string[];
   docs: string[];
   structure: DirectoryInfo;
+  graph: ImportGraph;
+  ranking: RankedFile[];    // Code files, most central first
+  commands: RepoCommand[];  // Runnable commands defined by the repo
+  files: Record<string, FileRecord>;  // Per code file, for incremental re-indexing
   stats: RepoStats;
 }
 
+export interface FileRecord {
+  hash: string;       // hashContent() of the file
+  mtimeMs: number;
+  size: number;
+  lines: number;
+  imports: string[];  // Raw specifiers (extractImports), resolved on each run
+}
+
+export interface IndexOptions {
+  previous?: Record<string, FileRecord>;  // Records from the last run
+  changed?: Set<string>;                  // Always rescan these, whatever their mtime
+}
+
 export interface LanguageInfo {
   name: string;
   extension: string;
@@ -35,17 +71,22 @@ export interface ManifestInfo {
   path: string;
   name?: string;
   dependencies?: string[];
+  workspaces?: string[];    // Member paths or globs declared by a workspace root
 }
 
 export interface DirectoryInfo {
-  path: string;
-  children: DirectoryInfo[];
+  path: string;                 // Repo-relative, '.' for the root
+  children: DirectoryInfo[];    // Sorted by path; empty below the depth limit
   hasCode: boolean;
+  fileCount: number;            // Files anywhere below, including deeper levels
+  codeFileCount: number;
+  dominantLanguage?: string;    // Most common language among code files
 }
 
 export interface RepoStats {
   totalFiles: number;
   totalLines: number;
+  scannedFiles: number;   // Files read this run; the rest reused previous records
   lastModified: Date;
 }
 
@@ -95,8 +136,28 @@ const FRAMEWORK_PATTERNS: Record<string, { files?: string[]; deps?: string[] }>
   'Rails': { files: ['Gemfile'], deps: ['rails'] },
   'Rust/Tokio': { deps: ['tokio'] },
   'Rust/Actix': { deps: ['actix-web'] },
+  'Rust/Axum': { deps: ['axum'] },
+  'Gin': { deps: ['github.com/gin-gonic/gin'] },
+  'Echo': { deps: ['github.com/labstack/echo/v4'] },
+  'Sinatra': { deps: ['sinatra'] },
 };
 
+// Manifest files and how to read them
+const MANIFEST_PARSERS: Array<{ pattern: string; type: ManifestInfo['type']; parse: (content: string) => ParsedManifest }> = [
+  { pattern: '**/package.json', type: 'npm', parse: parsePackageJson },
+  { pattern: '**/pnpm-workspace.yaml', type: 'npm', parse: c => ({ dependencies: [], workspaces: parsePnpmWorkspace(c) }) },
+  { pattern: '**/Cargo.toml', type: 'cargo', parse: parseCargoToml },
+  { pattern: '**/pyproject.toml', type: 'python', parse: parsePyproject },
+  { pattern: '**/requirements*.txt', type: 'python', parse: parseRequirements },
+  { pattern: '**/setup.py', type: 'python', parse: parseSetupPy },
+  { pattern: '**/go.mod', type: 'go', parse: parseGoMod },
+  { pattern: '**/go.work', type: 'go', parse: parseGoWork },
+  { pattern: '**/Gemfile', type: 'ruby', parse: parseGemfile },
+];
+
+// Source files worth indexing
+export const CODE_FILE_PATTERN = '**/*.{ts,tsx,js,jsx,py,rs,go,rb,java,kt,swift,c,cpp,h,cs,php,ex,exs}';
+
 // Default excludes
 const DEFAULT_EXCLUDES = [
   '**/node_modules/**',
@@ -116,30 +177,23 @@ const DEFAULT_EXCLUDES = [
 ];
 
 /**
- * Index a repository
+ * Index a repository. With `previous` records, only files whose mtime or
+ * size changed (or that are listed in `changed`) are read again.
  */
-export async function indexRepository(repoPath: string): Promise<RepoIndex> {
-  const codeFiles = await glob('**/*.{ts,tsx,js,jsx,py,rs,go,rb,java,kt,swift,c,cpp,h,cs,php,ex,exs}', {
-    cwd: repoPath,
-    ignore: DEFAULT_EXCLUDES,
-    nodir: true,
-  });
+export async function indexRepository(repoPath: string, options: IndexOptions = {}): Promise<RepoIndex> {
+  const codeFiles = await listCodeFiles(repoPath);
+
+  const { records, scanned } = await scanFiles(repoPath, codeFiles, options);
+  const indexedFiles = codeFiles.filter(f => records[f]);
 
   // Detect languages
   const languageCounts = new Map<string, { count: number; lines: number }>();
-  for (const file of codeFiles) {
+  for (const file of indexedFiles) {
     const ext = extname(file);
     const lang = LANGUAGE_MAP[ext] || 'Unknown';
     const current = languageCounts.get(lang) || { count: 0, lines: 0 };
 
-    // Count lines (rough estimate without reading all files)
-    try {
-      const content = await readFile(join(repoPath, file), 'utf-8');
-      current.lines += content.split('\n').length;
-    } catch {
-      // Skip unreadable files
-    }
-
+    current.lines += records[file].lines;
     current.count++;
     languageCounts.set(lang, current);
   }
@@ -159,8 +213,18 @@ export async function indexRepository(repoPath: string): Promise<RepoIndex> {
   // Detect frameworks
   const frameworks = await detectFrameworks(repoPath, manifests);
 
-  // Find entry points
-  const entrypoints = await findEntrypoints(repoPath, languages);
+  // Rank code files by import-graph centrality and git recency
+  const imports = Object.fromEntries(indexedFiles.map(f => [f, records[f].imports]));
+  const graph = await resolveImportGraph(repoPath, indexedFiles, imports);
+  const ranking = rankFiles(indexedFiles, graph, await getFileRecency(repoPath));
+  const rank = new Map(ranking.map((r, i) => [r.path, i]));
+
+  // Find entry points, most central first
+  const entrypoints = (await findEntrypoints(repoPath, languages))
+    .sort((a, b) => (rank.get(a) ?? ranking.length) - (rank.get(b) ?? ranking.length));
+
+  // Commands defined by scripts, Makefiles, task runners and CI
+  const commands = await extractCommands(repoPath);
 
   // Find config files
   const configs = await glob('**/*.{json,yaml,yml,toml,ini}', {
@@ -190,73 +254,91 @@ export async function indexRepository(repoPath: string): Promise<RepoIndex> {
     configs: configs.filter(c => isRelevantConfig(c)).slice(0, 20),
     docs: docs.slice(0, 20),
     structure,
+    graph,
+    ranking,
+    commands,
+    files: records,
     stats: {
-      totalFiles: codeFiles.length,
+      totalFiles: indexedFiles.length,
       totalLines,
+      scannedFiles: scanned,
       lastModified: new Date(),
     },
   };
 }
 
-async function findManifests(repoPath: string): Promise<ManifestInfo[]> {
-  const manifests: ManifestInfo[] = [];
-
-  // Package.json (npm)
-  const npmFiles = await glob('**/package.json', {
+/**
+ * Code files the index covers, repo-relative and sorted.
+ */
+export async function listCodeFiles(repoPath: string): Promise<string[]> {
+  const files = await glob(CODE_FILE_PATTERN, {
     cwd: repoPath,
     ignore: DEFAULT_EXCLUDES,
+    nodir: true,
   });
-  for (const file of npmFiles) {
+  return files.map(f => f.replace(/\\/g, '/')).sort();
+}
+
+/**
+ * Stat every file; read only those without a still-valid previous record.
+ * Unreadable files are left out.
+ */
+async function scanFiles(
+  repoPath: string,
+  files: string[],
+  options: IndexOptions
+): Promise<{ records: Record<string, FileRecord>; scanned: number }> {
+  const records: Record<string, FileRecord> = {};
+  let scanned = 0;
+
+  for (const file of files) {
     try {
-      const content = JSON.parse(await readFile(join(repoPath, file), 'utf-8'));
-      manifests.push({
-        type: 'npm',
-        path: file,
-        name: content.name,
-        dependencies: [
-          ...Object.keys(content.dependencies || {}),
-          ...Object.keys(content.devDependencies || {}),
-        ],
-      });
+      const stats = await stat(join(repoPath, file));
+      const previous = options.previous?.[file];
+      if (previous && previous.mtimeMs === stats.mtimeMs && previous.size === stats.size && !options.changed?.has(file)) {
+        records[file] = previous;
+        continue;
+      }
+
+      const content = await readFile(join(repoPath, file), 'utf-8');
+      scanned++;
+      records[file] = {
+        hash: hashContent(content),
+        mtimeMs: stats.mtimeMs,
+        size: stats.size,
+        lines: content.split('\n').length,
+        imports: isGraphSource(file) ? extractImports(file, content) : [],
+      };
     } catch {
-      // Skip invalid JSON
+      // Skip unreadable files
     }
   }
 
-  // Cargo.toml (Rust)
-  const cargoFiles = await glob('**/Cargo.toml', {
-    cwd: repoPath,
-    ignore: DEFAULT_EXCLUDES,
-  });
-  for (const file of cargoFiles) {
-    manifests.push({ type: 'cargo', path: file });
-  }
-
-  // pyproject.toml / requirements.txt (Python)
-  const pyFiles = await glob('**/{pyproject.toml,requirements.txt,setup.py}', {
-    cwd: repoPath,
-    ignore: DEFAULT_EXCLUDES,
-  });
-  for (const file of pyFiles) {
-    manifests.push({ type: 'python', path: file });
-  }
+  return { records, scanned };
+}
 
-  // go.mod (Go)
-  const goFiles = await glob('**/go.mod', {
-    cwd: repoPath,
-    ignore: DEFAULT_EXCLUDES,
-  });
-  for (const file of goFiles) {
-    manifests.push({ type: 'go', path: file });
-  }
+async function findManifests(repoPath: string): Promise<ManifestInfo[]> {
+  const manifests: ManifestInfo[] = [];
 
-  // Gemfile (Ruby)
-  const rubyFiles = await glob('**/Gemfile', {
-    cwd: repoPath,
-    ignore: DEFAULT_EXCLUDES,
-  });
-  for (const file of rubyFiles) {
-    manifests.push({ type: 'ruby', path: file });
+  for (const { pattern, type, parse } of MANIFEST_PARSERS) {
+    const files = await glob(pattern, {
+      cwd: repoPath,
+      ignore: DEFAULT_EXCLUDES,
+      nodir: true,
+    });
+
+    for (const file of files.map(f => f.replace(/\\/g, '/')).sort()) {
+      const manifest: ManifestInfo = { type, path: file };
+      try {
+        const parsed = parse(await readFile(join(repoPath, file), 'utf-8'));
+        if (parsed.name) manifest.name = parsed.name;
+        manifest.dependencies = parsed.dependencies;
+        if (parsed.workspaces) manifest.workspaces = parsed.workspaces;
+      } catch {
+        // Unparseable — still worth attaching, just without dependencies
+      }
+      manifests.push(manifest);
+    }
   }
 
   return manifests;
@@ -265,9 +347,9 @@ async function findManifests(repoPath: string): Promise<ManifestInfo[]> {
 async function detectFrameworks(repoPath: string, manifests: ManifestInfo[]): Promise<string[]> {
   const frameworks: Set<string> = new Set();
 
-  // Get all npm dependencies
+  // Dependencies across every ecosystem and workspace member
   const allDeps = new Set<string>();
-  for (const manifest of manifests.filter(m => m.type === 'npm')) {
+  for (const manifest of manifests) {
     manifest.dependencies?.forEach(d => allDeps.add(d));
   }
 
@@ -325,18 +407,65 @@ async function findEntrypoints(repoPath: string, languages: LanguageInfo[]): Pro
 }
 
 async function buildDirectoryStructure(repoPath: string, depth: number = 3): Promise<DirectoryInfo> {
-  const allDirs = await glob('**/', {
+  const allFiles = await glob('**/*', {
     cwd: repoPath,
     ignore: DEFAULT_EXCLUDES,
-    maxDepth: depth,
+    nodir: true,
   });
+  return buildDirectoryTree(allFiles.map(f => f.replace(/\\/g, '/')), depth);
+}
 
-  // Build tree structure (simplified for now)
-  return {
-    path: '.',
-    children: [],
-    hasCode: true,
-  };
+/**
+ * Fold a flat file list into a directory tree `depth` levels deep.
+ * Counts include everything below a directory, however deep.
+ */
+export function buildDirectoryTree(files: string[], depth: number = 3): DirectoryInfo {
+  const root = emptyDirectory('.');
+  const languageCounts = new Map<DirectoryInfo, Map<string, number>>();
+
+  for (const file of files) {
+    const parts = file.split('/').slice(0, -1);
+    const language = LANGUAGE_MAP[extname(file)];
+
+    let dir = root;
+    const chain = [root];
+    for (let i = 0; i < Math.min(parts.length, depth); i++) {
+      const path = parts.slice(0, i + 1).join('/');
+      let child = dir.children.find(c => c.path === path);
+      if (!child) {
+        child = emptyDirectory(path);
+        dir.children.push(child);
+      }
+      dir = child;
+      chain.push(dir);
+    }
+
+    for (const entry of chain) {
+      entry.fileCount++;
+      if (!language) continue;
+      entry.codeFileCount++;
+      entry.hasCode = true;
+      const counts = languageCounts.get(entry) || new Map<string, number>();
+      counts.set(language, (counts.get(language) || 0) + 1);
+      languageCounts.set(entry, counts);
+    }
+  }
+
+  for (const [dir, counts] of languageCounts) {
+    dir.dominantLanguage = Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0][0];
+  }
+  sortTree(root);
+  return root;
+}
+
+function emptyDirectory(path: string): DirectoryInfo {
+  return { path, children: [], hasCode: false, fileCount: 0, codeFileCount: 0 };
+}
+
+function sortTree(dir: DirectoryInfo): void {
+  dir.children.sort((a, b) => a.path.localeCompare(b.path));
+  dir.children.forEach(sortTree);
 }
 
 function isRelevantConfig(path: string): boolean {
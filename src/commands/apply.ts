@@ -1,81 +1,179 @@
 /**
  * Apply Command
  *
- * Apply review suggestions to AGENTS.md Auracoil region.
- * Reads from .auracoil/reviews/ instead of .auracoil/generated/.
+ * Apply selected review suggestions to AGENTS.md Auracoil region.
+ * Reads from .auracoil/reviews/ (latest review unless --file names one).
  */
 
-import { readdir, readFile, writeFile } from 'fs/promises';
-import { join, basename } from 'path';
+import { readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { createInterface } from 'readline/promises';
 import chalk from 'chalk';
 import { extractRegion, replaceRegion, ensureRegion } from '../regions/region-parser.js';
+import { applySuggestions, selectSuggestions, type ApplyOutcome } from '../regions/suggestion-applier.js';
+import { parseReviewResult, isSeverity, type ReviewSuggestion } from '../prompts/review-result.js';
+import { StateManager } from '../state/state-manager.js';
+import { ReviewStore } from '../state/review-store.js';
+import { loadConfig } from '../config/config.js';
+import { log, emit, fail, isJsonOutput } from './output.js';
+
+interface ApplyCommandResult {
+  review: string;
+  applied: string[];
+  skipped: ApplyOutcome['skipped'];
+  unknownIds: string[];
+  updated: boolean;       // AGENTS.md was written
+}
 
 interface ApplyOptions {
   file?: string;
+  id?: string[];
+  severity?: string;
+  all?: boolean;
+  interactive?: boolean;
 }
 
 export async function applyCommand(options: ApplyOptions): Promise<void> {
   const cwd = process.cwd();
-  const reviewDir = join(cwd, '.auracoil', 'reviews');
-
-  console.log(chalk.cyan('\n  Auracoil Apply\n'));
-
-  // Find the review file
-  let reviewFile: string;
-
-  if (options.file) {
-    reviewFile = join(reviewDir, options.file);
-  } else {
-    try {
-      const files = await readdir(reviewDir);
-      const reviewFiles = files
-        .filter(f => f.startsWith('review-') && f.endsWith('.json'))
-        .sort()
-        .reverse();
-
-      if (reviewFiles.length === 0) {
-        console.log(chalk.yellow('  No review files found.'));
-        console.log(chalk.dim('  Run `auracoil review` first.\n'));
-        process.exit(1);
-      }
-
-      reviewFile = join(reviewDir, reviewFiles[0]);
-      console.log(chalk.dim(`  Using latest: ${basename(reviewFile)}`));
-    } catch {
-      console.log(chalk.yellow('  No .auracoil/reviews/ directory found.'));
-      console.log(chalk.dim('  Run `auracoil review` first.\n'));
-      process.exit(1);
+
+  log(chalk.cyan('\n  Auracoil Apply\n'));
+
+  if (options.severity && !isSeverity(options.severity)) {
+    fail('INVALID_OPTION', `Invalid severity "${options.severity}" (expected low, medium or high)`);
+  }
+  if (options.interactive && isJsonOutput()) {
+    fail('INVALID_OPTION', 'Interactive mode cannot be combined with --json');
+  }
+
+  // Find the review (latest unless a reference was given)
+  const store = new ReviewStore(cwd);
+  const record = await store.resolve(options.file);
+  if (!record) {
+    if (options.file) {
+      fail('REVIEW_NOT_FOUND', `No review matching "${options.file}"`,
+        'Use a review id, file name, latest or latest~N.');
     }
+    fail('NO_REVIEWS', 'No review files found.', 'Run `auracoil review` first.');
   }
+  const reviewFile = store.pathFor(record);
+  log(chalk.dim(`  Using: ${record.id}`));
 
   // Read review content
   let reviewContent: string;
   try {
     reviewContent = await readFile(reviewFile, 'utf-8');
   } catch {
-    console.log(chalk.red(`  ✗ File not found: ${reviewFile}`));
-    process.exit(1);
+    fail('REVIEW_UNREADABLE', `File not found: ${reviewFile}`);
+  }
+
+  // Parse suggestions out of the review
+  const parsed = parseReviewResult(reviewContent);
+  if (!parsed.ok) {
+    fail('REVIEW_UNREADABLE', `${parsed.error} — cannot select suggestions`);
+  }
+  const suggestions = parsed.result.suggestions;
+  const outcome: ApplyCommandResult = { review: record.id, applied: [], skipped: [], unknownIds: [], updated: false };
+
+  if (suggestions.length === 0) {
+    log(chalk.green('  ✓ Review has no suggestions — nothing to apply.\n'));
+    emit(outcome);
+    return;
+  }
+
+  // Decide which suggestions to apply
+  const hasSelector = (options.id && options.id.length > 0) || options.severity || options.all;
+  let selected = selectSuggestions(suggestions, {
+    ids: options.id,
+    minSeverity: options.severity && isSeverity(options.severity) ? options.severity : undefined,
+  });
+
+  outcome.unknownIds = (options.id || []).filter(id => !suggestions.some(s => s.id === id));
+  for (const id of outcome.unknownIds) {
+    log(chalk.yellow(`  ⚠ No suggestion with id "${id}" in this review`));
+  }
+
+  if (options.interactive || !hasSelector) {
+    if (!process.stdin.isTTY || isJsonOutput()) {
+      fail('NO_SELECTION', 'No suggestions selected.',
+        'Use --id, --severity or --all when not running interactively.');
+    }
+    selected = await promptForSelection(selected);
+  }
+
+  if (selected.length === 0) {
+    log(chalk.dim('\n  No suggestions selected — AGENTS.md unchanged.\n'));
+    emit(outcome);
+    return;
   }
 
   // Read current AGENTS.md
-  const agentsPath = join(cwd, 'AGENTS.md');
+  const config = await loadConfig(cwd).catch((err: Error) => fail('INVALID_CONFIG', err.message));
+  const agentsPath = join(cwd, config.docs.agents);
   let agentsMd: string;
   try {
     agentsMd = await readFile(agentsPath, 'utf-8');
   } catch {
-    console.log(chalk.yellow('  No AGENTS.md found.'));
-    console.log(chalk.dim('  Run /interdoc first to create one.\n'));
-    process.exit(1);
+    fail('NO_AGENTS_MD', `No ${config.docs.agents} found.`, 'Run /interdoc first to create one.');
   }
 
-  // Ensure Auracoil region exists
+  // Ensure Auracoil region exists, then apply selected suggestions to it
   agentsMd = ensureRegion(agentsMd);
+  const result = applySuggestions(extractRegion(agentsMd) || '', selected);
+  outcome.applied = result.applied;
+  outcome.skipped = result.skipped;
 
-  // For now, save the review content as the region
-  // (In production, the agent parses suggestions and applies selectively)
-  const updatedDoc = replaceRegion(agentsMd, reviewContent);
+  for (const id of result.applied) {
+    log(chalk.green(`  ✓ ${id}`));
+  }
+  for (const skip of result.skipped) {
+    log(chalk.yellow(`  ⚠ ${skip.id}: ${skip.reason}`));
+  }
+
+  if (result.applied.length === 0) {
+    log(chalk.dim('\n  Nothing applied — AGENTS.md unchanged.\n'));
+    emit(outcome);
+    return;
+  }
+
+  const updatedDoc = replaceRegion(agentsMd, result.region);
   await writeFile(agentsPath, updatedDoc);
 
-  console.log(chalk.green('  ✓ Review applied to AGENTS.md Auracoil region'));
-  console.log(chalk.dim('  Only the Auracoil section was modified.\n'));
+  // Landed suggestions close their findings
+  const state = new StateManager(cwd);
+  for (const id of result.applied) {
+    await state.setFindingStatus(id, 'applied', `applied from ${record.id}`);
+  }
+
+  outcome.updated = true;
+
+  log(chalk.green(`\n  ✓ Applied ${result.applied.length} suggestion(s) to AGENTS.md Auracoil region`));
+  log(chalk.dim('  Only the Auracoil section was modified.\n'));
+
+  emit(outcome);
+}
+
+/**
+ * Walk through suggestions one by one and ask the user to accept or reject.
+ */
+async function promptForSelection(suggestions: ReviewSuggestion[]): Promise<ReviewSuggestion[]> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  const accepted: ReviewSuggestion[] = [];
+
+  try {
+    for (const [i, s] of suggestions.entries()) {
+      console.log('');
+      console.log(chalk.bold(`  [${i + 1}/${suggestions.length}] ${s.id}`) + chalk.dim(` (${s.severity}, ${s.type})`));
+      console.log(chalk.dim(`  Section:  ${s.section}`));
+      console.log(`  ${s.suggestion}`);
+      console.log(chalk.dim(`  Evidence: ${s.evidence}`));
+
+      const answer = (await rl.question(chalk.cyan('  Apply? [y/N/q] '))).trim().toLowerCase();
+      if (answer === 'q') break;
+      if (answer === 'y' || answer === 'yes') accepted.push(s);
+    }
+  } finally {
+    rl.close();
+  }
+
+  return accepted;
 }
@@ -0,0 +1,38 @@
+/**
+ * Config Command
+ *
+ * Show the effective configuration and which files or variables set it.
+ * Exits non-zero when any layer fails validation.
+ */
+
+import chalk from 'chalk';
+import yaml from 'js-yaml';
+import { loadConfigLayers, mergeConfigLayers, defaultUserConfigPath } from '../config/config.js';
+import { log, emit, fail } from './output.js';
+
+export async function configCommand(): Promise<void> {
+  const cwd = process.cwd();
+
+  log(chalk.cyan('\n  Auracoil Config\n'));
+
+  const layers = await loadConfigLayers(cwd).catch((err: Error) => fail('INVALID_CONFIG', err.message));
+  const config = mergeConfigLayers(layers);
+
+  log(chalk.dim('  Sources (later wins):'));
+  log(chalk.dim('    defaults'));
+  for (const layer of layers) {
+    log(`    ${layer.source}`);
+    if (layer.ignored) {
+      log(chalk.yellow(`      ignored: ${layer.ignored.join(', ')} (not confirmed in the user config)`));
+    }
+  }
+  if (!layers.some(l => l.source === defaultUserConfigPath())) {
+    log(chalk.dim(`    (no user config at ${defaultUserConfigPath()})`));
+  }
+
+  log('');
+  log(yaml.dump(config).trimEnd().split('\n').map(line => `  ${line}`).join('\n'));
+  log('');
+
+  emit({ sources: layers.map(l => l.source), ignored: layers.flatMap(l => l.ignored ?? []), config });
+}
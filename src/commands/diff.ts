@@ -1,73 +1,144 @@
 /**
  * Diff Command
  *
- * Show diff between latest review output and current AGENTS.md.
+ * Preview each review suggestion as a unified diff of the AGENTS.md
+ * Auracoil region, and flag suggestions that no longer apply.
  */
 
-import { readdir, readFile } from 'fs/promises';
-import { join, basename } from 'path';
-import { execFileSync } from 'child_process';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
 import chalk from 'chalk';
+import { extractRegion, ensureRegion } from '../regions/region-parser.js';
+import { applySuggestion, selectSuggestions, type ApplyStatus } from '../regions/suggestion-applier.js';
+import { buildHunks, diffLines, createUnifiedDiff, type DiffHunk } from '../regions/unified-diff.js';
+import { parseReviewResult, type ReviewSuggestion } from '../prompts/review-result.js';
+import { ReviewStore } from '../state/review-store.js';
+import { loadConfig } from '../config/config.js';
+import { log, emit, fail } from './output.js';
 
 interface DiffOptions {
   file?: string;
+  id?: string[];
 }
 
+interface SuggestionDiff extends Pick<ReviewSuggestion, 'id' | 'severity' | 'type' | 'section'> {
+  status: ApplyStatus;
+  reason?: string;
+  hunks: DiffHunk[];
+}
+
+const STATUS_LABELS: Record<ApplyStatus, string> = {
+  'applied': 'applies cleanly',
+  'already-applied': 'already applied',
+  'target-missing': 'target text no longer exists',
+  'needs-manual-edit': 'needs a manual edit',
+};
+
 export async function diffCommand(options: DiffOptions): Promise<void> {
   const cwd = process.cwd();
-  const reviewDir = join(cwd, '.auracoil', 'reviews');
-
-  console.log(chalk.cyan('\n  Auracoil Diff\n'));
-
-  // Find the review file to diff
-  let sourceFile: string;
-
-  if (options.file) {
-    sourceFile = join(reviewDir, options.file);
-  } else {
-    try {
-      const files = await readdir(reviewDir);
-      const reviewFiles = files
-        .filter(f => f.startsWith('review-') && f.endsWith('.json'))
-        .sort()
-        .reverse();
-
-      if (reviewFiles.length === 0) {
-        console.log(chalk.yellow('  No review files found.'));
-        console.log(chalk.dim('  Run `auracoil review` first.\n'));
-        process.exit(1);
-      }
-
-      sourceFile = join(reviewDir, reviewFiles[0]);
-      console.log(chalk.dim(`  Comparing: ${basename(sourceFile)} → AGENTS.md\n`));
-    } catch {
-      console.log(chalk.yellow('  No .auracoil/reviews/ directory found.'));
-      console.log(chalk.dim('  Run `auracoil review` first.\n'));
-      process.exit(1);
+
+  log(chalk.cyan('\n  Auracoil Diff\n'));
+
+  // Find the review (latest unless a reference was given)
+  const store = new ReviewStore(cwd);
+  const record = await store.resolve(options.file);
+  if (!record) {
+    if (options.file) {
+      fail('REVIEW_NOT_FOUND', `No review matching "${options.file}"`,
+        'Use a review id, file name, latest or latest~N.');
     }
+    fail('NO_REVIEWS', 'No review files found.', 'Run `auracoil review` first.');
   }
+  const sourceFile = store.pathFor(record);
+  log(chalk.dim(`  Comparing: ${record.id} → AGENTS.md\n`));
 
-  const destFile = join(cwd, 'AGENTS.md');
+  const config = await loadConfig(cwd).catch((err: Error) => fail('INVALID_CONFIG', err.message));
+  const destFile = join(cwd, config.docs.agents);
 
   // Check if current AGENTS.md exists
+  let agentsMd: string;
   try {
-    await readFile(destFile, 'utf-8');
+    agentsMd = await readFile(destFile, 'utf-8');
   } catch {
-    console.log(chalk.dim('  AGENTS.md does not exist yet.'));
-    console.log(chalk.dim('  Run /interdoc first to create one.\n'));
-    return;
+    fail('NO_AGENTS_MD', `${config.docs.agents} does not exist yet.`, 'Run /interdoc first to create one.');
   }
 
-  // Show review content
+  // Read and parse review
+  let reviewContent: string;
   try {
-    const reviewContent = await readFile(sourceFile, 'utf-8');
-    console.log(chalk.dim('  Latest review output:'));
-    console.log(chalk.dim('  ' + '-'.repeat(50)));
-    console.log(reviewContent);
-    console.log(chalk.dim('  ' + '-'.repeat(50)));
-    console.log(chalk.cyan('\n  To apply: auracoil apply\n'));
+    reviewContent = await readFile(sourceFile, 'utf-8');
   } catch {
-    console.log(chalk.red(`  ✗ Error reading review file: ${sourceFile}`));
-    process.exit(1);
+    fail('REVIEW_UNREADABLE', `Error reading review file: ${sourceFile}`);
+  }
+
+  const parsed = parseReviewResult(reviewContent);
+  if (!parsed.ok) {
+    fail('REVIEW_UNREADABLE', `${parsed.error}`);
+  }
+
+  const suggestions = selectSuggestions(parsed.result.suggestions, { ids: options.id });
+  if (suggestions.length === 0) {
+    log(chalk.green('  ✓ No suggestions to preview.\n'));
+    emit({ review: record.id, suggestions: [], counts: {} });
+    return;
   }
+
+  // Diff each suggestion independently against the current region
+  const region = extractRegion(ensureRegion(agentsMd)) || '';
+  const counts: Record<ApplyStatus, number> = {
+    'applied': 0,
+    'already-applied': 0,
+    'target-missing': 0,
+    'needs-manual-edit': 0,
+  };
+  const diffs: SuggestionDiff[] = [];
+
+  for (const suggestion of suggestions) {
+    const result = applySuggestion(region, suggestion);
+    counts[result.status]++;
+    diffs.push({
+      id: suggestion.id,
+      severity: suggestion.severity,
+      type: suggestion.type,
+      section: suggestion.section,
+      status: result.status,
+      reason: result.reason,
+      hunks: result.applied ? buildHunks(diffLines(region, result.region)) : [],
+    });
+
+    const statusColor = result.applied ? chalk.green : chalk.yellow;
+    log(chalk.bold(`  ${suggestion.id}`) + chalk.dim(` (${suggestion.severity}, ${suggestion.type}) — ${suggestion.section}`));
+    log(statusColor(`  ${result.applied ? '✓' : '⚠'} ${STATUS_LABELS[result.status]}`) +
+      (result.reason && !result.applied ? chalk.dim(` (${result.reason})`) : ''));
+
+    if (result.applied) {
+      const diff = createUnifiedDiff(region, result.region, {
+        fromLabel: 'AGENTS.md (auracoil region)',
+        toLabel: `AGENTS.md (with ${suggestion.id})`,
+      });
+      log(colorizeDiff(diff));
+    } else {
+      log(chalk.dim(`    ${suggestion.suggestion}`));
+    }
+    log('');
+  }
+
+  log(chalk.dim(`  ${counts['applied']} applicable, ${counts['already-applied']} already applied, ` +
+    `${counts['target-missing']} stale, ${counts['needs-manual-edit']} manual`));
+  log(chalk.cyan('\n  To apply: auracoil apply --id <id...>\n'));
+
+  emit({ review: record.id, suggestions: diffs, counts });
+}
+
+function colorizeDiff(diff: string): string {
+  return diff
+    .split('\n')
+    .map(line => {
+      if (line.startsWith('+++') || line.startsWith('---')) return chalk.dim(`    ${line}`);
+      if (line.startsWith('@@')) return chalk.cyan(`    ${line}`);
+      if (line.startsWith('+')) return chalk.green(`    ${line}`);
+      if (line.startsWith('-')) return chalk.red(`    ${line}`);
+      return chalk.dim(`    ${line}`);
+    })
+    .join('\n');
 }
@@ -0,0 +1,135 @@
+/**
+ * Findings Command
+ *
+ * List, filter and triage findings tracked in .auracoil/state.json.
+ * Rejected findings are fed back into later reviews so GPT stops
+ * re-suggesting them.
+ */
+
+import chalk from 'chalk';
+import {
+  StateManager,
+  FINDING_STATUSES,
+  isFindingStatus,
+  type Finding,
+  type FindingStatus,
+} from '../state/state-manager.js';
+import { isSeverity, SEVERITIES } from '../prompts/review-result.js';
+import { log, emit, fail } from './output.js';
+
+interface FindingsListOptions {
+  status?: string;
+  severity?: string;
+  section?: string;
+}
+
+interface FindingsUpdateOptions {
+  note?: string;
+}
+
+const STATUS_ICONS: Record<FindingStatus, string> = {
+  open: chalk.yellow('●'),
+  resolved: chalk.green('✓'),
+  rejected: chalk.red('✗'),
+  deferred: chalk.dim('…'),
+  applied: chalk.green('✓'),
+};
+
+const SEVERITY_COLORS = {
+  high: chalk.red,
+  medium: chalk.yellow,
+  low: chalk.dim,
+};
+
+export async function findingsCommand(options: FindingsListOptions): Promise<void> {
+  const cwd = process.cwd();
+
+  log(chalk.cyan('\n  Auracoil Findings\n'));
+
+  const status = options.status || 'open';
+  if (status !== 'all' && !isFindingStatus(status)) {
+    fail('INVALID_OPTION', `Invalid status "${status}" (expected ${FINDING_STATUSES.join(', ')} or all)`);
+  }
+  if (options.severity && !isSeverity(options.severity)) {
+    fail('INVALID_OPTION', `Invalid severity "${options.severity}" (expected ${SEVERITIES.join(', ')})`);
+  }
+
+  const state = new StateManager(cwd);
+  const { findings } = await state.load();
+
+  const section = options.section?.trim().toLowerCase();
+  const matching = findings
+    .filter(f => status === 'all' || f.status === status)
+    .filter(f => !options.severity || f.severity === options.severity)
+    .filter(f => !section || f.section.toLowerCase().includes(section))
+    .sort(bySeverity);
+
+  emit({ findings: matching, total: findings.length });
+
+  if (matching.length === 0) {
+    log(chalk.dim(`  No ${status === 'all' ? '' : `${status} `}findings.`));
+    if (findings.length === 0) {
+      log(chalk.dim('  Findings are recorded by `auracoil review`.'));
+    }
+    log('');
+    return;
+  }
+
+  for (const finding of matching) {
+    printFinding(finding);
+  }
+
+  const counts = FINDING_STATUSES
+    .map(s => [s, findings.filter(f => f.status === s).length] as const)
+    .filter(([, n]) => n > 0)
+    .map(([s, n]) => `${n} ${s}`);
+  log(chalk.dim(`  Showing ${matching.length} of ${findings.length} (${counts.join(', ')})`));
+  log(chalk.dim('  Triage: auracoil findings reject <id> --note "why"\n'));
+}
+
+/**
+ * Move a finding to a new status (reject, defer, resolve, reopen).
+ */
+export async function updateFindingCommand(
+  id: string,
+  status: FindingStatus,
+  options: FindingsUpdateOptions
+): Promise<void> {
+  const cwd = process.cwd();
+  const state = new StateManager(cwd);
+
+  const found = status === 'resolved'
+    ? await state.resolveFinding(id, options.note)
+    : await state.setFindingStatus(id, status, options.note);
+
+  if (!found) {
+    fail('FINDING_NOT_FOUND', `No finding with id "${id}"`,
+      'Run `auracoil findings --status all` to see tracked findings.');
+  }
+
+  log(chalk.green(`\n  ✓ ${id} → ${status}`) + (options.note ? chalk.dim(` (${options.note})`) : ''));
+  if (status === 'rejected') {
+    log(chalk.dim('    Future reviews will be told not to raise it again.'));
+  }
+  log('');
+
+  emit({ id, status, note: options.note ?? null });
+}
+
+function printFinding(finding: Finding): void {
+  const color = SEVERITY_COLORS[finding.severity];
+  log(`  ${STATUS_ICONS[finding.status]} ${chalk.bold(finding.id)} ` +
+    color(`[${finding.severity}]`) + chalk.dim(` ${finding.section} — ${finding.status}`));
+  log(`    ${finding.suggestion}`);
+  log(chalk.dim(`    Evidence: ${finding.evidence}`));
+  if (finding.reason) {
+    log(chalk.dim(`    Note: ${finding.reason}`));
+  }
+  const seen = finding.timesSeen && finding.timesSeen > 1 ? `, seen in ${finding.timesSeen} reviews` : '';
+  log(chalk.dim(`    Since ${finding.introducedAt.split('T')[0]}${seen}`));
+  log('');
+}
+
+function bySeverity(a: Finding, b: Finding): number {
+  return SEVERITIES.indexOf(b.severity) - SEVERITIES.indexOf(a.severity);
+}
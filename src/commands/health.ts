@@ -5,23 +5,31 @@
  */
 
 import { readFile, stat } from 'fs/promises';
-import { join } from 'path';
+import { join, basename } from 'path';
 import chalk from 'chalk';
 import { glob } from 'glob';
 import { indexRepository } from '../analyzer/repo-indexer.js';
-import { isOracleAvailable, getOracleVersion } from '../integrations/oracle.js';
+import { loadStoredIndex, findChangedFiles } from '../analyzer/index-store.js';
+import { findUnknownCommands, type UnknownCommand } from '../analyzer/command-check.js';
+import { mentions } from '../lint/doc-lint.js';
+import { isOracleAvailable, getOracleVersion, configureOracleEnvironment } from '../integrations/oracle.js';
+import { loadConfig, type AuracoilConfig } from '../config/config.js';
+import { log, emit, fail } from './output.js';
 
-interface HealthMetrics {
+export interface HealthMetrics {
+  oracle: { available: boolean; version: string | null };
   hasAgentsMd: boolean;
   hasClaudeMd: boolean;
   agentsMdAge?: number;  // days
   claudeMdAge?: number;
   indexAge?: number;
   coverage: CoverageMetrics;
+  commands: CommandMetrics;
+  graph: GraphMetrics;
   staleness: StalenessMetrics;
 }
 
-interface CoverageMetrics {
+export interface CoverageMetrics {
   languagesCovered: number;
   totalLanguages: number;
   frameworksCovered: number;
@@ -29,7 +37,21 @@ interface CoverageMetrics {
   solutionCount: number;
 }
 
-interface StalenessMetrics {
+export interface CommandMetrics {
+  defined: number;            // Commands found in scripts, Makefiles, CI, ...
+  unknown: UnknownCommand[];  // Cited in AGENTS.md but not defined
+}
+
+export interface GraphMetrics {
+  files: number;            // Code files in the import graph
+  edges: number;            // Resolved imports between them
+  hubs: string[];           // Most central files
+  hubsDocumented: number;   // Hubs AGENTS.md mentions by name
+}
+
+const HUB_COUNT = 5;
+
+export interface StalenessMetrics {
   filesChangedSinceIndex: number;
   daysStale: number;
   needsUpdate: boolean;
@@ -38,75 +60,97 @@ interface StalenessMetrics {
 export async function healthCommand(): Promise<void> {
   const cwd = process.cwd();
 
-  console.log(chalk.cyan('\n  Auracoil Health Check\n'));
+  log(chalk.cyan('\n  Auracoil Health Check\n'));
+
+  const config = await loadConfig(cwd).catch((err: Error) => fail('INVALID_CONFIG', err.message));
+  configureOracleEnvironment(config.oracle);
+
+  const metrics = await gatherMetrics(cwd, config);
 
   // Check Oracle
-  const oracleAvailable = await isOracleAvailable();
-  if (oracleAvailable) {
-    const version = await getOracleVersion();
-    console.log(chalk.green(`  ✓ Oracle CLI: ${version}`));
+  if (metrics.oracle.available) {
+    log(chalk.green(`  ✓ Oracle CLI: ${metrics.oracle.version}`));
   } else {
-    console.log(chalk.red('  ✗ Oracle CLI: Not found'));
-    console.log(chalk.dim('    Install with: npm i -g @steipete/oracle'));
+    log(chalk.red('  ✗ Oracle CLI: Not found'));
+    log(chalk.dim('    Install with: npm i -g @steipete/oracle'));
   }
 
-  // Check documentation files
-  const metrics = await gatherMetrics(cwd);
-
-  console.log('');
-  console.log(chalk.dim('  Documentation:'));
+  log('');
+  log(chalk.dim('  Documentation:'));
 
   if (metrics.hasAgentsMd) {
     const ageStr = metrics.agentsMdAge !== undefined
       ? chalk.dim(` (${formatAge(metrics.agentsMdAge)})`)
       : '';
-    console.log(chalk.green(`    ✓ AGENTS.md${ageStr}`));
+    log(chalk.green(`    ✓ ${config.docs.agents}${ageStr}`));
   } else {
-    console.log(chalk.yellow('    ⚠ AGENTS.md: Not found'));
+    log(chalk.yellow(`    ⚠ ${config.docs.agents}: Not found`));
   }
 
   if (metrics.hasClaudeMd) {
     const ageStr = metrics.claudeMdAge !== undefined
       ? chalk.dim(` (${formatAge(metrics.claudeMdAge)})`)
       : '';
-    console.log(chalk.green(`    ✓ CLAUDE.md${ageStr}`));
+    log(chalk.green(`    ✓ ${config.docs.claude}${ageStr}`));
   } else {
-    console.log(chalk.yellow('    ⚠ CLAUDE.md: Not found'));
+    log(chalk.yellow(`    ⚠ ${config.docs.claude}: Not found`));
   }
 
   // Coverage
-  console.log('');
-  console.log(chalk.dim('  Coverage:'));
-  console.log(`    Languages:  ${metrics.coverage.languagesCovered}/${metrics.coverage.totalLanguages}`);
-  console.log(`    Frameworks: ${metrics.coverage.frameworksCovered}/${metrics.coverage.totalFrameworks}`);
-  console.log(`    Solutions:  ${metrics.coverage.solutionCount} captured`);
+  log('');
+  log(chalk.dim('  Coverage:'));
+  log(`    Languages:  ${metrics.coverage.languagesCovered}/${metrics.coverage.totalLanguages}`);
+  log(`    Frameworks: ${metrics.coverage.frameworksCovered}/${metrics.coverage.totalFrameworks}`);
+  log(`    Solutions:  ${metrics.coverage.solutionCount} captured`);
+  log(`    Commands:   ${metrics.commands.defined} defined in the repo`);
+  for (const cmd of metrics.commands.unknown.slice(0, 5)) {
+    log(chalk.yellow(`      ⚠ line ${cmd.line}: \`${cmd.command}\` — no ${cmd.runner} target "${cmd.target}"`));
+  }
+  if (metrics.commands.unknown.length > 5) {
+    log(chalk.dim(`      …and ${metrics.commands.unknown.length - 5} more`));
+  }
+
+  // Import graph
+  log('');
+  log(chalk.dim('  Structure:'));
+  log(`    Import graph: ${metrics.graph.files} files, ${metrics.graph.edges} edges`);
+  if (metrics.graph.hubs.length > 0) {
+    log(`    Key modules:  ${metrics.graph.hubsDocumented}/${metrics.graph.hubs.length} documented`);
+    log(chalk.dim(`      ${metrics.graph.hubs.join(', ')}`));
+  }
 
   // Staleness
-  console.log('');
-  console.log(chalk.dim('  Staleness:'));
+  log('');
+  log(chalk.dim('  Staleness:'));
 
-  if (metrics.staleness.needsUpdate) {
-    console.log(chalk.yellow(`    ⚠ ${metrics.staleness.filesChangedSinceIndex} files changed since last index`));
-    console.log(chalk.dim(`      Last indexed: ${formatAge(metrics.staleness.daysStale)} ago`));
-    console.log(chalk.dim('      Run `auracoil review` to refresh'));
+  if (metrics.indexAge === undefined) {
+    log(chalk.yellow('    ⚠ No index yet'));
+    log(chalk.dim('      Run `auracoil index` to build it'));
+  } else if (metrics.staleness.needsUpdate) {
+    log(chalk.yellow(`    ⚠ ${metrics.staleness.filesChangedSinceIndex} files changed since last index`));
+    log(chalk.dim(`      Last indexed: ${formatAge(metrics.staleness.daysStale)} ago`));
+    log(chalk.dim('      Run `auracoil index` or `auracoil review` to refresh'));
   } else {
-    console.log(chalk.green('    ✓ Documentation is up to date'));
+    log(chalk.green('    ✓ Documentation is up to date'));
   }
 
   // Summary
-  console.log('');
+  log('');
   if (!metrics.hasAgentsMd) {
-    console.log(chalk.cyan('  → Run `auracoil review` to create AGENTS.md'));
+    log(chalk.cyan(`  → Run \`auracoil review\` to create ${config.docs.agents}`));
   } else if (metrics.staleness.needsUpdate) {
-    console.log(chalk.cyan('  → Run `auracoil review` to refresh documentation'));
+    log(chalk.cyan('  → Run `auracoil review` to refresh documentation'));
   } else {
-    console.log(chalk.green('  All good!'));
+    log(chalk.green('  All good!'));
   }
-  console.log('');
+  log('');
+
+  emit(metrics);
 }
 
-async function gatherMetrics(cwd: string): Promise<HealthMetrics> {
+async function gatherMetrics(cwd: string, config: AuracoilConfig): Promise<HealthMetrics> {
   const metrics: HealthMetrics = {
+    oracle: { available: false, version: null },
     hasAgentsMd: false,
     hasClaudeMd: false,
     coverage: {
@@ -116,6 +160,16 @@ async function gatherMetrics(cwd: string): Promise<HealthMetrics> {
       totalFrameworks: 0,
       solutionCount: 0,
     },
+    commands: {
+      defined: 0,
+      unknown: [],
+    },
+    graph: {
+      files: 0,
+      edges: 0,
+      hubs: [],
+      hubsDocumented: 0,
+    },
     staleness: {
       filesChangedSinceIndex: 0,
       daysStale: 0,
@@ -123,9 +177,15 @@ async function gatherMetrics(cwd: string): Promise<HealthMetrics> {
     },
   };
 
+  // Check Oracle
+  metrics.oracle.available = await isOracleAvailable();
+  if (metrics.oracle.available) {
+    metrics.oracle.version = await getOracleVersion();
+  }
+
   // Check AGENTS.md
   try {
-    const agentsStat = await stat(join(cwd, 'AGENTS.md'));
+    const agentsStat = await stat(join(cwd, config.docs.agents));
     metrics.hasAgentsMd = true;
     metrics.agentsMdAge = daysSince(agentsStat.mtime);
   } catch {
@@ -134,35 +194,52 @@ async function gatherMetrics(cwd: string): Promise<HealthMetrics> {
 
   // Check CLAUDE.md
   try {
-    const claudeStat = await stat(join(cwd, 'CLAUDE.md'));
+    const claudeStat = await stat(join(cwd, config.docs.claude));
     metrics.hasClaudeMd = true;
     metrics.claudeMdAge = daysSince(claudeStat.mtime);
   } catch {
     // Not found
   }
 
-  // Index repo for coverage metrics
+  // Coverage reflects the repo as it is now; the saved index only speeds
+  // this up and, below, measures staleness
+  const stored = await loadStoredIndex(cwd);
+
   try {
-    const index = await indexRepository(cwd);
+    const index = await indexRepository(cwd, { previous: stored?.files });
     metrics.coverage.totalLanguages = index.languages.length;
     metrics.coverage.totalFrameworks = index.frameworks.length;
 
+    metrics.commands.defined = index.commands.length;
+    metrics.graph.files = index.ranking.length;
+    metrics.graph.edges = Object.values(index.graph.imports).reduce((sum, targets) => sum + targets.length, 0);
+    metrics.graph.hubs = index.ranking
+      .filter(r => r.fanIn > 0)
+      .slice(0, HUB_COUNT)
+      .map(r => r.path);
+
     // Check if AGENTS.md mentions these
     if (metrics.hasAgentsMd) {
-      const agentsContent = await readFile(join(cwd, 'AGENTS.md'), 'utf-8');
-      const agentsLower = agentsContent.toLowerCase();
+      const agentsContent = await readFile(join(cwd, config.docs.agents), 'utf-8');
+
+      metrics.commands.unknown = findUnknownCommands(agentsContent, index.commands);
 
       for (const lang of index.languages) {
-        if (agentsLower.includes(lang.name.toLowerCase())) {
+        if (mentions(agentsContent, lang.name)) {
           metrics.coverage.languagesCovered++;
         }
       }
 
       for (const framework of index.frameworks) {
-        if (agentsLower.includes(framework.toLowerCase())) {
+        if (mentions(agentsContent, framework)) {
           metrics.coverage.frameworksCovered++;
         }
       }
+
+      // A hub counts as documented if its path or file name appears
+      metrics.graph.hubsDocumented = metrics.graph.hubs.filter(hub =>
+        mentions(agentsContent, hub) || mentions(agentsContent, basename(hub))
+      ).length;
     }
   } catch {
     // Index failed
@@ -179,39 +256,15 @@ async function gatherMetrics(cwd: string): Promise<HealthMetrics> {
     // No solutions
   }
 
-  // Check staleness
-  try {
-    const indexPath = join(cwd, '.auracoil/index.json');
-    const indexStat = await stat(indexPath);
-    const indexData = JSON.parse(await readFile(indexPath, 'utf-8'));
-
-    metrics.staleness.daysStale = daysSince(indexStat.mtime);
-
-    // Count files changed since index
-    if (indexData.indexed) {
-      const indexDate = new Date(indexData.indexed);
-      const codeFiles = await glob('**/*.{ts,tsx,js,jsx,py,rs,go,rb}', {
-        cwd,
-        ignore: ['**/node_modules/**', '**/.git/**', '**/dist/**'],
-        nodir: true,
-      });
-
-      for (const file of codeFiles) {
-        try {
-          const fileStat = await stat(join(cwd, file));
-          if (fileStat.mtime > indexDate) {
-            metrics.staleness.filesChangedSinceIndex++;
-          }
-        } catch {
-          // Skip
-        }
-      }
-    }
-
-    metrics.staleness.needsUpdate = metrics.staleness.filesChangedSinceIndex > 5 ||
-      metrics.staleness.daysStale > 7;
-  } catch {
-    // No index
+  // Check staleness against the saved index
+  if (stored) {
+    metrics.indexAge = daysSince(new Date(stored.indexed));
+    metrics.staleness.daysStale = metrics.indexAge;
+    metrics.staleness.filesChangedSinceIndex = (await findChangedFiles(cwd, stored)).length;
+    metrics.staleness.needsUpdate = metrics.staleness.filesChangedSinceIndex > config.staleness.maxChangedFiles ||
+      metrics.staleness.daysStale > config.staleness.maxDays;
+  } else {
+    // No index yet
     metrics.staleness.needsUpdate = true;
   }
 
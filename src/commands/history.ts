@@ -0,0 +1,100 @@
+/**
+ * History Command
+ *
+ * Timeline of past reviews with suggestion counts and outcomes, plus a
+ * simple trend showing whether the docs are converging.
+ */
+
+import chalk from 'chalk';
+import { ReviewStore } from '../state/review-store.js';
+import { StateManager } from '../state/state-manager.js';
+import { summarizeHistory, type HistoryTrend } from '../state/review-history.js';
+import { log, emit, fail } from './output.js';
+
+interface HistoryOptions {
+  limit?: string;
+}
+
+export async function historyCommand(options: HistoryOptions): Promise<void> {
+  const cwd = process.cwd();
+
+  log(chalk.cyan('\n  Auracoil History\n'));
+
+  const limit = options.limit === undefined ? 20 : Number(options.limit);
+  if (!/^\d+$/.test(options.limit ?? '20') || limit <= 0) {
+    fail('INVALID_OPTION', `Invalid --limit "${options.limit}" (expected a positive integer)`);
+  }
+
+  const records = await new ReviewStore(cwd).list();
+  if (records.length === 0) {
+    log(chalk.dim('  No reviews yet.'));
+    log(chalk.dim('  Run `auracoil review` to start the history.\n'));
+    emit(summarizeHistory([], []));
+    return;
+  }
+
+  const { findings } = await new StateManager(cwd).load();
+  const summary = summarizeHistory(records, findings);
+
+  // Timeline (newest first)
+  log(chalk.dim('  Date        Commit   High  Med  Low  Applied  Rejected  Review'));
+  for (const entry of summary.entries.slice(-limit).reverse()) {
+    const r = entry.record;
+    const date = r.createdAt.split('T')[0];
+    const commit = r.commit ? r.commit.substring(0, 7) : '-'.padEnd(7);
+    const high = r.severityCounts.high > 0 ? chalk.red(pad(r.severityCounts.high, 4)) : pad(0, 4);
+    log(`  ${date}  ${commit}  ${high}  ${pad(r.severityCounts.medium, 3)}  ${pad(r.severityCounts.low, 3)}` +
+      `  ${pad(entry.applied, 7)}  ${pad(entry.rejected, 8)}  ${chalk.dim(r.id)}`);
+  }
+
+  if (records.length > limit) {
+    log(chalk.dim(`  … ${records.length - limit} older review(s) not shown`));
+  }
+
+  // Trends
+  const { totals } = summary;
+  log('');
+  log(chalk.dim('  Trends:'));
+  log(`    ${formatTrend(summary.trend)}`);
+  log(`    Suggestions: ${totals.suggestions} across ${totals.reviews} review(s)`);
+  // Rates are per distinct finding; a suggestion raised again isn't counted twice
+  log(`    Findings:    ${totals.findings}, ` +
+    `${totals.applied} applied (${percent(totals.applied, totals.findings)}), ` +
+    `${totals.rejected} rejected (${percent(totals.rejected, totals.findings)})`);
+  if (totals.avgDurationMs > 0) {
+    log(`    Avg review time: ${formatDuration(totals.avgDurationMs)}`);
+  }
+  log('');
+
+  emit({ ...summary, entries: summary.entries.slice(-limit) });
+}
+
+function formatTrend(trend: HistoryTrend): string {
+  if (trend.direction === 'insufficient-data') {
+    return chalk.dim('High-severity trend: need at least 2 reviews');
+  }
+  const label = `High-severity per review: ${trend.earlierHigh.toFixed(1)} → ${trend.recentHigh.toFixed(1)}` +
+    chalk.dim(` (last ${trend.window} vs previous ${trend.window})`);
+  switch (trend.direction) {
+    case 'converging':
+      return `${label} ${chalk.green('converging')}`;
+    case 'diverging':
+      return `${label} ${chalk.yellow('diverging')}`;
+    default:
+      return `${label} ${chalk.dim('steady')}`;
+  }
+}
+
+function pad(value: number, width: number): string {
+  return String(value).padStart(width);
+}
+
+function percent(part: number, total: number): string {
+  return total > 0 ? `${Math.round((part / total) * 100)}%` : '0%';
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
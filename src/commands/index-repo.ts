@@ -0,0 +1,57 @@
+/**
+ * Index Command
+ *
+ * Build or refresh .auracoil/index.json. Only files changed since the
+ * last run are rescanned unless --full is given.
+ */
+
+import { relative } from 'path';
+import chalk from 'chalk';
+import { updateIndex } from '../analyzer/index-store.js';
+import { log, emit } from './output.js';
+
+interface IndexOptions {
+  full?: boolean;
+}
+
+export async function indexCommand(options: IndexOptions): Promise<void> {
+  const cwd = process.cwd();
+
+  log(chalk.cyan('\n  Auracoil Index\n'));
+
+  const started = Date.now();
+  const update = await updateIndex(cwd, { full: options.full });
+  const { index } = update;
+  const durationMs = Date.now() - started;
+
+  const edges = Object.values(index.graph.imports).reduce((sum, targets) => sum + targets.length, 0);
+
+  if (update.full) {
+    log(chalk.dim(`  Full scan of ${update.scanned} file(s)`));
+  } else {
+    log(chalk.dim(`  Rescanned ${update.scanned}, reused ${update.reused}, removed ${update.removed}`));
+  }
+  log(`  Files:      ${index.stats.totalFiles} (${index.stats.totalLines.toLocaleString()} lines)`);
+  log(`  Languages:  ${index.languages.map(l => l.name).join(', ') || 'none'}`);
+  if (index.frameworks.length > 0) {
+    log(`  Frameworks: ${index.frameworks.join(', ')}`);
+  }
+  log(`  Imports:    ${edges} edge(s)`);
+  log(chalk.green(`\n  ✓ Saved ${relative(cwd, update.path)} in ${(durationMs / 1000).toFixed(1)}s\n`));
+
+  emit({
+    path: relative(cwd, update.path),
+    indexed: index.indexed,
+    head: index.head,
+    full: update.full,
+    scanned: update.scanned,
+    reused: update.reused,
+    removed: update.removed,
+    durationMs,
+    totalFiles: index.stats.totalFiles,
+    totalLines: index.stats.totalLines,
+    languages: index.languages,
+    frameworks: index.frameworks,
+    edges,
+  });
+}
@@ -0,0 +1,99 @@
+/**
+ * Lint Command
+ *
+ * Offline checks of AGENTS.md against the repository (see lint/doc-lint).
+ * Exits 1 when any finding is at or above --fail-on, so it can gate
+ * pre-commit hooks and CI. No reviewer or network access needed.
+ */
+
+import { readFile } from 'fs/promises';
+import { join, relative } from 'path';
+import chalk from 'chalk';
+import { indexRepository } from '../analyzer/repo-indexer.js';
+import { loadStoredIndex } from '../analyzer/index-store.js';
+import { loadPathFilter } from '../analyzer/path-filter.js';
+import { lintDocument, DEFAULT_RULES, type LintFinding } from '../lint/doc-lint.js';
+import { isSeverity, SEVERITIES, type Severity } from '../prompts/review-result.js';
+import { loadConfig } from '../config/config.js';
+import { log, emit, fail } from './output.js';
+
+interface LintOptions {
+  file?: string;
+  rules?: string;
+  failOn?: string;
+}
+
+const SEVERITY_COLORS = {
+  high: chalk.red,
+  medium: chalk.yellow,
+  low: chalk.dim,
+};
+
+export async function lintCommand(options: LintOptions): Promise<void> {
+  const cwd = process.cwd();
+
+  log(chalk.cyan('\n  Auracoil Lint\n'));
+
+  const config = await loadConfig(cwd).catch((err: Error) => fail('INVALID_CONFIG', err.message));
+
+  const failOn = options.failOn || 'medium';
+  if (!isSeverity(failOn)) {
+    fail('INVALID_OPTION', `Invalid --fail-on "${failOn}" (expected ${SEVERITIES.join(', ')})`);
+  }
+
+  const only = options.rules ? options.rules.split(',').map(r => r.trim()).filter(Boolean) : [];
+  const unknownRules = only.filter(id => !DEFAULT_RULES.some(r => r.id === id));
+  if (unknownRules.length > 0) {
+    fail('INVALID_OPTION', `Unknown rule(s): ${unknownRules.join(', ')}`,
+      `Available: ${DEFAULT_RULES.map(r => r.id).join(', ')}`);
+  }
+
+  const docPath = relative(cwd, join(cwd, options.file || config.docs.agents)).replace(/\\/g, '/');
+  let content: string;
+  try {
+    content = await readFile(join(cwd, docPath), 'utf-8');
+  } catch {
+    fail('NO_AGENTS_MD', `No ${docPath} found — nothing to lint.`);
+  }
+
+  // Fresh index, reusing unchanged files from the stored one; it isn't saved,
+  // so health's "changed since last index" count still means something
+  const stored = await loadStoredIndex(cwd);
+  const index = await indexRepository(cwd, { previous: stored?.files });
+  const filter = await loadPathFilter(cwd, { includePatterns: config.include, excludePatterns: config.exclude });
+  const findings = await lintDocument({ repoPath: cwd, docPath, content, index, filter }, { only });
+
+  const threshold = SEVERITIES.indexOf(failOn as Severity);
+  const failing = findings.filter(f => SEVERITIES.indexOf(f.severity) >= threshold);
+  const passed = failing.length === 0;
+
+  for (const finding of findings) {
+    printLintFinding(docPath, finding);
+  }
+
+  const counts = SEVERITIES.slice().reverse()
+    .map(s => [s, findings.filter(f => f.severity === s).length] as const)
+    .filter(([, n]) => n > 0)
+    .map(([s, n]) => `${n} ${s}`);
+
+  if (findings.length === 0) {
+    log(chalk.green(`  ✓ ${docPath}: no problems found\n`));
+  } else if (passed) {
+    log(chalk.green(`  ✓ ${docPath}: ${counts.join(', ')} (below --fail-on ${failOn})\n`));
+  } else {
+    log(chalk.red(`  ✗ ${docPath}: ${counts.join(', ')}\n`));
+  }
+
+  emit({ file: docPath, failOn, passed, findings });
+
+  if (!passed) process.exitCode = 1;
+}
+
+function printLintFinding(docPath: string, finding: LintFinding): void {
+  const color = SEVERITY_COLORS[finding.severity];
+  const location = finding.line ? `${docPath}:${finding.line}` : docPath;
+  log(`  ${color(`[${finding.severity}]`)} ${chalk.bold(finding.rule)} ${chalk.dim(location)}`);
+  log(`    ${finding.suggestion}`);
+  log(chalk.dim(`    ${finding.evidence}`));
+  log('');
+}
@@ -0,0 +1,89 @@
+/**
+ * Command Output
+ *
+ * Commands print chalk-colored text by default. With the global --json
+ * flag they print nothing but one JSON document on stdout:
+ *
+ *   { "ok": true,  "command": "apply", "data": { ... } }
+ *   { "ok": false, "command": "apply", "error": { "code": "REVIEW_NOT_FOUND", "message": "..." } }
+ *
+ * Error codes are part of the CLI contract — add new ones, never rename.
+ */
+
+import chalk from 'chalk';
+
+export const ERROR_CODES = [
+  'INVALID_OPTION',         // Bad flag value
+  'INVALID_CONFIG',         // config.yaml or AURACOIL_* variable failed validation
+  'NO_AGENTS_MD',           // AGENTS.md missing
+  'REVIEWER_UNAVAILABLE',   // Pre-flight check failed
+  'REVIEWER_FAILED',        // Reviewer errored, exited non-zero or timed out
+  'INVALID_REVIEW_OUTPUT',  // Answer had no usable JSON
+  'SECRETS_IN_PROMPT',      // Review prompt had a secret and secrets.prompt is "block"
+  'NO_REVIEWS',             // No saved reviews yet
+  'REVIEW_NOT_FOUND',       // --file matched nothing
+  'REVIEW_UNREADABLE',      // Saved review can't be read or parsed
+  'NO_SELECTION',           // apply without --id/--severity/--all and no TTY
+  'FINDING_NOT_FOUND',      // findings <action> <id> with an unknown id
+  'INTERNAL_ERROR',         // Anything unexpected
+] as const;
+
+export type ErrorCode = typeof ERROR_CODES[number];
+
+export interface CommandFailure {
+  ok: false;
+  command: string;
+  error: { code: ErrorCode; message: string };
+}
+
+export interface CommandSuccess<T> {
+  ok: true;
+  command: string;
+  data: T;
+}
+
+let jsonOutput = false;
+let commandName = 'auracoil';
+
+/**
+ * Called once per invocation, before the command runs.
+ */
+export function configureOutput(options: { json?: boolean; command?: string }): void {
+  jsonOutput = options.json === true;
+  commandName = options.command || 'auracoil';
+}
+
+export function isJsonOutput(): boolean {
+  return jsonOutput;
+}
+
+/**
+ * Human-readable line; suppressed in JSON mode.
+ */
+export function log(message: string = ''): void {
+  if (!jsonOutput) console.log(message);
+}
+
+/**
+ * The command's structured result; printed only in JSON mode.
+ */
+export function emit<T>(data: T): void {
+  if (!jsonOutput) return;
+  const result: CommandSuccess<T> = { ok: true, command: commandName, data };
+  console.log(JSON.stringify(result, null, 2));
+}
+
+/**
+ * Report a failure and exit 1.
+ */
+export function fail(code: ErrorCode, message: string, hint?: string): never {
+  if (jsonOutput) {
+    const result: CommandFailure = { ok: false, command: commandName, error: { code, message } };
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    console.log(chalk.red(`  ✗ ${message}`));
+    if (hint) console.log(chalk.dim(`    ${hint}`));
+    console.log('');
+  }
+  process.exit(1);
+}
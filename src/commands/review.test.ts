@@ -0,0 +1,324 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile, readFile, readdir, chmod } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { reviewCommand } from './review.js';
+import { applyCommand } from './apply.js';
+import { historyCommand } from './history.js';
+import { StateManager } from '../state/state-manager.js';
+import { ReviewStore } from '../state/review-store.js';
+import { AuditStore } from '../state/audit-store.js';
+import { configureOutput } from './output.js';
+
+const AGENTS_MD = `# AGENTS.md
+
+## Overview
+A small CLI.
+
+<!-- auracoil:begin -->
+## GPT Insights (maintained by Auracoil)
+
+### Quick Start
+
+Run \`npm install\`.
+<!-- auracoil:end -->
+`;
+
+const REVIEW_ANSWER = `Here is my review.
+
+\`\`\`json
+{
+  "suggestions": [
+    {
+      "id": "missing-test-cmd",
+      "severity": "high",
+      "section": "Quick Start",
+      "type": "add",
+      "suggestion": "Document the test command",
+      "evidence": "package.json defines a test script",
+      "content": "Run \`npm test\`."
+    },
+    {
+      "id": "mention-esm",
+      "severity": "low",
+      "section": "Gotchas",
+      "type": "add",
+      "suggestion": "Mention ESM-only imports",
+      "evidence": "package.json has type: module",
+      "content": "Imports need the .js extension."
+    }
+  ],
+  "summary": "Missing test instructions."
+}
+\`\`\``;
+
+/**
+ * Review → save → apply, end to end, against the fixture reviewer.
+ */
+describe('review pipeline (fixture reviewer)', () => {
+  let repoDir: string;
+  let fixtureDir: string;
+
+  beforeEach(async () => {
+    repoDir = await mkdtemp(join(tmpdir(), 'auracoil-repo-'));
+    fixtureDir = await mkdtemp(join(tmpdir(), 'auracoil-fixture-'));
+    await writeFile(join(repoDir, 'AGENTS.md'), AGENTS_MD);
+    await writeFile(join(repoDir, 'package.json'), JSON.stringify({ name: 'demo', type: 'module', scripts: { test: 'vitest' } }));
+    await mkdir(join(repoDir, 'src'));
+    await writeFile(join(repoDir, 'src', 'index.ts'), 'export const answer = 42;\n');
+
+    vi.spyOn(process, 'cwd').mockReturnValue(repoDir);
+    vi.spyOn(process, 'exit').mockImplementation(((code?: number) => {
+      throw new Error(`process.exit(${code})`);
+    }) as never);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    configureOutput({});
+    vi.restoreAllMocks();
+    await rm(repoDir, { recursive: true });
+    await rm(fixtureDir, { recursive: true });
+  });
+
+  it('should save a structured review, track findings and apply by id', async () => {
+    await writeFile(join(fixtureDir, 'review.md'), REVIEW_ANSWER);
+
+    await reviewCommand({ reviewer: 'fixture', fixture: fixtureDir });
+
+    const store = new ReviewStore(repoDir);
+    const record = await store.resolve('latest');
+    expect(record).toMatchObject({ reviewer: 'fixture', suggestionCount: 2 });
+    const saved = JSON.parse(await readFile(store.pathFor(record!), 'utf-8'));
+    expect(saved.suggestions.map((s: { id: string }) => s.id)).toEqual(['missing-test-cmd', 'mention-esm']);
+
+    const state = await new StateManager(repoDir).load();
+    expect(state.findings.map(f => f.status)).toEqual(['open', 'open']);
+    expect(state.lastReviewedAt).not.toBeNull();
+
+    await applyCommand({ id: ['missing-test-cmd'], file: 'latest' });
+
+    const agentsMd = await readFile(join(repoDir, 'AGENTS.md'), 'utf-8');
+    expect(agentsMd).toContain('Run `npm install`.\n\nRun `npm test`.');
+    expect(agentsMd).not.toContain('Imports need the .js extension.');
+    expect(agentsMd).toContain('## Overview\nA small CLI.');
+
+    const after = await new StateManager(repoDir).load();
+    expect(after.findings.find(f => f.id === 'missing-test-cmd')?.status).toBe('applied');
+    expect(after.findings.find(f => f.id === 'mention-esm')?.status).toBe('open');
+  });
+
+  it('should replay a recorded Oracle transcript', async () => {
+    await writeFile(join(fixtureDir, 'oracle-run.transcript'),
+      `🧿 oracle 0.8.5\nAnswer:\n${REVIEW_ANSWER}\n\n2048 tokens`);
+
+    await reviewCommand({ reviewer: 'fixture', fixture: fixtureDir });
+
+    const state = await new StateManager(repoDir).load();
+    expect(state.findings).toHaveLength(2);
+  });
+
+  it('should fail without saving on a reviewer timeout', async () => {
+    await writeFile(join(fixtureDir, 'fixture.json'), JSON.stringify({
+      scenarios: [{ name: 'timeout', fail: 'timeout' }],
+    }));
+
+    await expect(reviewCommand({ reviewer: 'fixture', fixture: fixtureDir })).rejects.toThrow('process.exit(1)');
+
+    const state = await new StateManager(repoDir).load();
+    expect(state.lastReviewedAt).toBeNull();
+  });
+
+  it('should keep the raw answer when the reviewer returns malformed JSON', async () => {
+    await writeFile(join(fixtureDir, 'fixture.json'), JSON.stringify({
+      scenarios: [{ name: 'malformed', fail: 'malformed' }],
+    }));
+
+    await expect(reviewCommand({ reviewer: 'fixture', fixture: fixtureDir })).rejects.toThrow('process.exit(1)');
+
+    const files = await readdir(join(repoDir, '.auracoil', 'reviews'));
+    expect(files.some(f => f.endsWith('.raw.txt'))).toBe(true);
+    expect(await new ReviewStore(repoDir).list()).toEqual([]);
+  });
+
+  it('should fail the review on a non-zero exit scenario', async () => {
+    await writeFile(join(fixtureDir, 'fixture.json'), JSON.stringify({
+      scenarios: [{ name: 'crash', fail: 'exit', exitCode: 3 }],
+    }));
+
+    await expect(reviewCommand({ reviewer: 'fixture', fixture: fixtureDir, model: 'crash' }))
+      .rejects.toThrow('process.exit(1)');
+  });
+
+  it('should print a single JSON result with --json', async () => {
+    await writeFile(join(fixtureDir, 'review.md'), REVIEW_ANSWER);
+    configureOutput({ json: true, command: 'review' });
+
+    await reviewCommand({ reviewer: 'fixture', fixture: fixtureDir });
+
+    const printed = vi.mocked(console.log).mock.calls;
+    expect(printed).toHaveLength(1);
+    const output = JSON.parse(printed[0][0] as string);
+    expect(output).toMatchObject({
+      ok: true,
+      command: 'review',
+      data: {
+        review: { suggestionCount: 2 },
+        findings: { added: ['missing-test-cmd', 'mention-esm'] },
+        promptRedactions: [],
+      },
+    });
+  });
+
+  it('should report a stable error code with --json', async () => {
+    await writeFile(join(fixtureDir, 'fixture.json'), JSON.stringify({
+      scenarios: [{ name: 'timeout', fail: 'timeout' }],
+    }));
+    configureOutput({ json: true, command: 'review' });
+
+    await expect(reviewCommand({ reviewer: 'fixture', fixture: fixtureDir })).rejects.toThrow('process.exit(1)');
+
+    const output = JSON.parse(vi.mocked(console.log).mock.calls[0][0] as string);
+    expect(output).toMatchObject({ ok: false, command: 'review', error: { code: 'REVIEWER_FAILED' } });
+  });
+
+  it('should reject a --limit for history that is not a positive integer', async () => {
+    configureOutput({ json: true, command: 'history' });
+
+    for (const limit of ['5abc', '1.5', '0', '-3']) {
+      vi.mocked(console.log).mockClear();
+      await expect(historyCommand({ limit })).rejects.toThrow('process.exit(1)');
+      const output = JSON.parse(vi.mocked(console.log).mock.calls[0][0] as string);
+      expect(output).toMatchObject({ ok: false, command: 'history', error: { code: 'INVALID_OPTION' } });
+    }
+  });
+
+  it('should redact secrets in the prompt text, or block with secrets.prompt: block', async () => {
+    const token = 'ghp_' + 'a1B2c3D4e5F6g7H8i9J0'.repeat(2).slice(0, 36);
+    await writeFile(join(repoDir, 'AGENTS.md'), AGENTS_MD.replace('Run `npm install`.', `Run \`npm install\`. CI uses ${token}.`));
+    await writeFile(join(fixtureDir, 'review.md'), REVIEW_ANSWER);
+    configureOutput({ json: true, command: 'review' });
+
+    await reviewCommand({ reviewer: 'fixture', fixture: fixtureDir });
+
+    const output = JSON.parse(vi.mocked(console.log).mock.calls[0][0] as string);
+    expect(output.data.promptRedactions).toEqual([expect.objectContaining({ type: 'token' })]);
+
+    await mkdir(join(repoDir, '.auracoil'), { recursive: true });
+    await writeFile(join(repoDir, '.auracoil', 'config.yaml'), 'secrets:\n  prompt: block\n');
+    vi.mocked(console.log).mockClear();
+
+    await expect(reviewCommand({ reviewer: 'fixture', fixture: fixtureDir })).rejects.toThrow('process.exit(1)');
+
+    const blocked = JSON.parse(vi.mocked(console.log).mock.calls[0][0] as string);
+    expect(blocked).toMatchObject({ ok: false, error: { code: 'SECRETS_IN_PROMPT' } });
+  });
+
+  it('should send neither the prompt nor the attached AGENTS.md with a secret from the region', async () => {
+    const token = 'ghp_' + 'a1B2c3D4e5F6g7H8i9J0'.repeat(2).slice(0, 36);
+    await writeFile(join(repoDir, 'AGENTS.md'), AGENTS_MD.replace('Run `npm install`.', `Run \`npm install\`. CI uses ${token}.`));
+    // Reviewer command that keeps everything it was sent
+    await writeFile(join(fixtureDir, 'answer.md'), REVIEW_ANSWER);
+    await writeFile(join(fixtureDir, 'reviewer.sh'), `cat > "${join(fixtureDir, 'sent.txt')}"\ncat "${join(fixtureDir, 'answer.md')}"\n`);
+
+    await reviewCommand({ reviewer: 'command', reviewerCommand: `sh ${join(fixtureDir, 'reviewer.sh')}`, skipPreflight: true });
+
+    const sent = await readFile(join(fixtureDir, 'sent.txt'), 'utf-8');
+    expect(sent).not.toContain(token);
+    // Once in the prompt's region quote, once in the attached file
+    expect(sent.split('CI uses <REDACTED:token>.')).toHaveLength(3);
+    // The redacted copy is headed with its repo path, not the staging dir
+    expect(sent).toContain('### AGENTS.md\n');
+    expect(sent).not.toContain('auracoil-staged-');
+
+    const record = await new ReviewStore(repoDir).resolve('latest');
+    const audit = await new AuditStore(repoDir).load(record!.id);
+    expect(audit!.files.find(f => f.path === 'AGENTS.md')).toMatchObject({ redactions: 1 });
+  });
+
+  it('should write an audit record before sending a review', async () => {
+    await writeFile(join(fixtureDir, 'review.md'), REVIEW_ANSWER);
+
+    await reviewCommand({ reviewer: 'fixture', fixture: fixtureDir });
+
+    const record = await new ReviewStore(repoDir).resolve('latest');
+    const audit = await new AuditStore(repoDir).load(record!.id);
+    expect(audit).toMatchObject({
+      id: record!.id,
+      dryRun: false,
+      reviewer: { name: 'fixture' },
+      bundleHash: record!.bundleHash,
+      scan: { issues: 0, redactedFiles: 0, excludedFiles: [], promptRedactions: 0 },
+    });
+    expect(audit!.files.map(f => f.path)).toContain('src/index.ts');
+    expect(audit!.files.every(f => /^[a-f0-9]{16}$/.test(f.hash))).toBe(true);
+    expect(audit!.prompt.hash).toMatch(/^[a-f0-9]{16}$/);
+  });
+
+  it('should save the audit record and prompt without calling the reviewer on --dry-run', async () => {
+    await writeFile(join(repoDir, 'src', 'aws.ts'), 'export const keyId = "AKIAIOSFODNN7QWERTY1";\n');
+    configureOutput({ json: true, command: 'review' });
+
+    // The fixture directory is empty, so any reviewer call would fail
+    await reviewCommand({ reviewer: 'fixture', fixture: fixtureDir, dryRun: true });
+
+    const output = JSON.parse(vi.mocked(console.log).mock.calls[0][0] as string);
+    expect(output).toMatchObject({ ok: true, data: { dryRun: true, audit: { dryRun: true } } });
+
+    const audit = await new AuditStore(repoDir).load(output.data.audit.id);
+    expect(audit!.files.find(f => f.path === 'src/aws.ts')).toMatchObject({ redactions: 1 });
+    expect(audit!.scan.byType).toEqual({ aws_credentials: 1 });
+
+    const prompt = await readFile(join(repoDir, output.data.promptPath), 'utf-8');
+    expect(prompt.length).toBe(audit!.prompt.chars);
+    expect(await new ReviewStore(repoDir).list()).toEqual([]);
+    expect((await new StateManager(repoDir).load()).lastReviewedAt).toBeNull();
+  });
+
+  it('should audit the endpoint and command the reviewer resolved from the environment', async () => {
+    vi.stubEnv('AURACOIL_ENDPOINT', 'http://127.0.0.1:9/v1/');
+    vi.stubEnv('AURACOIL_REVIEWER_COMMAND', 'llm -m gpt-4o');
+    const store = new AuditStore(repoDir);
+
+    try {
+      await reviewCommand({ reviewer: 'http', dryRun: true });
+      await reviewCommand({ reviewer: 'command', dryRun: true });
+    } finally {
+      vi.unstubAllEnvs();
+    }
+
+    const ids = (await readdir(store.auditDir)).filter(f => !f.includes('.prompt.')).map(f => f.replace(/\.json$/, ''));
+    const reviewers = await Promise.all(ids.map(async id => (await store.load(id))!.reviewer));
+    expect(reviewers).toEqual(expect.arrayContaining([
+      { name: 'http', model: 'default', endpoint: 'http://127.0.0.1:9/v1' },
+      { name: 'command', model: 'llm', command: 'llm -m gpt-4o' },
+    ]));
+  });
+
+  it('should keep --json output to one document with the oracle reviewer', async () => {
+    // Stub `oracle` that prints progress and writes the answer to --write-output
+    const binDir = join(fixtureDir, 'bin');
+    await mkdir(binDir);
+    await writeFile(join(fixtureDir, 'answer.md'), REVIEW_ANSWER);
+    await writeFile(join(binDir, 'oracle'), [
+      '#!/bin/sh',
+      'echo "Launching browser"',
+      'while [ $# -gt 0 ]; do [ "$1" = "--write-output" ] && out="$2"; shift; done',
+      `cp "${join(fixtureDir, 'answer.md')}" "$out"`,
+      'echo "Answer:"',
+    ].join('\n'));
+    await chmod(join(binDir, 'oracle'), 0o755);
+    vi.stubEnv('PATH', `${binDir}:${process.env.PATH}`);
+    configureOutput({ json: true, command: 'review' });
+
+    try {
+      await reviewCommand({ reviewer: 'oracle', skipPreflight: true });
+    } finally {
+      vi.unstubAllEnvs();
+    }
+
+    const printed = vi.mocked(console.log).mock.calls;
+    expect(printed).toHaveLength(1);
+    expect(JSON.parse(printed[0][0] as string)).toMatchObject({ ok: true, data: { review: { reviewer: 'oracle' } } });
+  });
+});
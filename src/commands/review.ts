@@ -5,47 +5,76 @@
  * save structured suggestions. GPT acts as critic, not generator.
  */
 
-import { readFile, writeFile, mkdir } from 'fs/promises';
-import { join } from 'path';
+import { readFile } from 'fs/promises';
+import { join, relative } from 'path';
 import chalk from 'chalk';
-import { simpleGit } from 'simple-git';
-import { checkOracleSession, executeOracle } from '../integrations/oracle.js';
-import { indexRepository } from '../analyzer/repo-indexer.js';
-import { buildAnalysisBundle, getBundleFiles } from '../analyzer/context-builder.js';
-import { scanForSecrets } from '../security/secret-scanner.js';
-import { buildReviewPrompt } from '../prompts/review-prompt.js';
+import { simpleGit, type SimpleGit } from 'simple-git';
+import { createReviewer, isReviewerKind, REVIEWER_KINDS } from '../integrations/reviewer-registry.js';
+import { updateIndex } from '../analyzer/index-store.js';
+import { buildAnalysisBundle, getBundleFiles, getBundleHash, hashContent } from '../analyzer/context-builder.js';
+import { isTestFile } from '../analyzer/change-context.js';
+import { findUnknownCommands } from '../analyzer/command-check.js';
+import { scanForSecrets, stageRedactedFiles, redactText } from '../security/secret-scanner.js';
+import { loadBaselineFingerprints } from '../security/secret-baseline.js';
+import { buildReviewPrompt, selectPriorFindings } from '../prompts/review-prompt.js';
+import { parseReviewResult, formatParseReport } from '../prompts/review-result.js';
 import { extractRegion } from '../regions/region-parser.js';
 import { StateManager } from '../state/state-manager.js';
+import { ReviewStore, newReviewId } from '../state/review-store.js';
+import { AuditStore, summarizeScan, type AuditRecord } from '../state/audit-store.js';
+import { configureOracleEnvironment } from '../integrations/oracle.js';
+import { loadConfig } from '../config/config.js';
+import { log, emit, fail } from './output.js';
 
 interface ReviewOptions {
   skipPreflight?: boolean;
+  reviewer?: string;
+  model?: string;
+  endpoint?: string;
+  reviewerCommand?: string;
+  fixture?: string;
+  dryRun?: boolean;
 }
 
 export async function reviewCommand(options: ReviewOptions): Promise<void> {
   const cwd = process.cwd();
 
-  console.log(chalk.cyan('\n  Auracoil Review\n'));
+  log(chalk.cyan('\n  Auracoil Review\n'));
 
-  // Step 1: Pre-flight check
-  if (!options.skipPreflight) {
-    console.log(chalk.dim('  Checking Oracle session...'));
-    const health = await checkOracleSession();
+  const config = await loadConfig(cwd).catch((err: Error) => fail('INVALID_CONFIG', err.message));
+  configureOracleEnvironment(config.oracle);
+
+  // Step 1: Pick reviewer backend and pre-flight check
+  const kind = options.reviewer || config.reviewer.kind;
+  if (!isReviewerKind(kind)) {
+    fail('INVALID_OPTION', `Unknown reviewer "${kind}" (expected ${REVIEWER_KINDS.join(', ')})`);
+  }
+  const reviewerOptions = {
+    model: options.model || config.reviewer.model || (kind === 'oracle' ? config.oracle.model : undefined),
+    endpoint: options.endpoint || config.reviewer.endpoint,
+    command: options.reviewerCommand || config.reviewer.command,
+    fixture: options.fixture,
+  };
+  const reviewer = createReviewer(kind, reviewerOptions);
+
+  // A dry run never contacts the reviewer
+  if (!options.skipPreflight && !options.dryRun) {
+    log(chalk.dim(`  Checking ${reviewer.name} reviewer...`));
+    const health = await reviewer.check();
     if (!health.available) {
-      console.log(chalk.red(`\n  \u2717 ${health.message}`));
-      console.log(chalk.dim('    Fix Oracle, then retry. Use --skip-preflight to bypass.\n'));
-      process.exit(1);
+      fail('REVIEWER_UNAVAILABLE', health.message,
+        `Fix the ${reviewer.name} reviewer, then retry. Use --skip-preflight to bypass.`);
     }
-    console.log(chalk.green('  \u2713 Oracle session active'));
+    log(chalk.green(`  \u2713 ${health.message}`));
   }
 
   // Step 2: Read existing AGENTS.md
-  const agentsPath = join(cwd, 'AGENTS.md');
+  const agentsPath = join(cwd, config.docs.agents);
   let agentsMd: string;
   try {
     agentsMd = await readFile(agentsPath, 'utf-8');
   } catch {
-    console.log(chalk.yellow('  No AGENTS.md found \u2014 run /interdoc or create one first.\n'));
-    process.exit(1);
+    fail('NO_AGENTS_MD', `No ${config.docs.agents} found \u2014 run /interdoc or create one first.`);
   }
 
   // Step 3: Extract Auracoil region (or note it's missing)
@@ -56,7 +85,7 @@ export async function reviewCommand(options: ReviewOptions): Promise<void> {
   const state = new StateManager(cwd);
   const stateData = await state.load();
 
-  console.log(chalk.dim('  Gathering evidence...'));
+  log(chalk.dim('  Gathering evidence...'));
 
   const git = simpleGit(cwd);
   let changedFiles: string[] = [];
@@ -66,77 +95,222 @@ export async function reviewCommand(options: ReviewOptions): Promise<void> {
     if (stateData.lastReviewedCommit) {
       const diff = await git.diff(['--name-only', `${stateData.lastReviewedCommit}..HEAD`]);
       changedFiles = diff.split('\n').filter(Boolean);
-      const log = await git.log({ from: stateData.lastReviewedCommit, to: 'HEAD' });
-      commitMessages = log.all.map(c => c.message);
+      const gitLog = await git.log({ from: stateData.lastReviewedCommit, to: 'HEAD' });
+      commitMessages = gitLog.all.map(c => c.message);
     } else {
-      const log = await git.log({ maxCount: 20 });
-      commitMessages = log.all.map(c => c.message);
+      const gitLog = await git.log({ maxCount: 20 });
+      commitMessages = gitLog.all.map(c => c.message);
     }
   } catch {
-    console.log(chalk.dim('  No git history available'));
+    log(chalk.dim('  No git history available'));
   }
 
-  console.log(chalk.dim(`  ${changedFiles.length} files changed, ${commitMessages.length} commits`));
+  log(chalk.dim(`  ${changedFiles.length} files changed, ${commitMessages.length} commits`));
 
   // Step 5: Index repo and build file bundle
-  console.log(chalk.dim('  Indexing repository...'));
-  const index = await indexRepository(cwd);
-  const bundle = await buildAnalysisBundle(cwd, index);
+  log(chalk.dim('  Indexing repository...'));
+  const { index, scanned } = await updateIndex(cwd);
+  log(chalk.dim(`  ${index.stats.totalFiles} code files indexed (${scanned} rescanned)`));
+  const bundle = await buildAnalysisBundle(cwd, index, {
+    ...config.analysis,
+    includePatterns: config.include,
+    excludePatterns: config.exclude,
+  }, changedFiles);
   const files = getBundleFiles(bundle);
+  if (bundle.changed.length > 0) {
+    log(chalk.dim(`  Attaching ${bundle.changed.length} changed and ${bundle.related.length} related file(s)`));
+  }
 
-  // Step 6: Security scan
-  const scanResult = await scanForSecrets(cwd, files);
-  const safeFiles = scanResult.safe
-    ? files
-    : files.filter(f => !scanResult.issues.some(i => i.file === f));
+  const unknownCommands = findUnknownCommands(agentsMd, index.commands);
+  if (unknownCommands.length > 0) {
+    log(chalk.yellow(`  ⚠ ${unknownCommands.length} command(s) in ${config.docs.agents} not defined in the repo`));
+  }
+
+  // Step 6: Security scan; flagged files go out as redacted copies
+  const scanOptions = { entropy: config.secrets.entropy, baseline: await loadBaselineFingerprints(cwd) };
+  const scanResult = await scanForSecrets(cwd, files, scanOptions);
+  const staged = await stageRedactedFiles(cwd, files, scanResult, scanOptions);
+  if (staged.redacted.length > 0) {
+    const count = staged.redacted.reduce((sum, r) => sum + r.redactions.length, 0);
+    log(chalk.yellow(`  ⚠ Redacted ${count} secret(s) in ${staged.redacted.length} file(s)`));
+  }
+  if (staged.excluded.length > 0) {
+    log(chalk.yellow(`  ⚠ Excluded ${staged.excluded.length} sensitive file(s): ${staged.excluded.map(i => i.file).join(', ')}`));
+  }
 
   // Step 7: Build review prompt
   const repoName = cwd.split('/').pop() || 'unknown';
-  const prompt = buildReviewPrompt({
+  const builtPrompt = buildReviewPrompt({
     existingAgentsMd: regionContent,
     changedFiles,
     commitMessages,
     repoName,
     languages: index.languages.map(l => l.name),
+    priorFindings: selectPriorFindings(stateData.findings),
+    keyFiles: index.ranking.filter(r => !isTestFile(r.path)),
+    layout: index.structure,
+    commands: index.commands,
+    unknownCommands,
   });
 
-  // Step 8: Send to GPT via Oracle
-  console.log(chalk.cyan('\n  Sending to GPT 5.2 Pro for review...'));
-  console.log(chalk.dim('  This may take 5-15 minutes.\n'));
+  // The prompt quotes the AGENTS.md region and raw commit messages; scan it as well
+  const promptScan = redactText('review prompt', builtPrompt, scanOptions);
+  if (promptScan.redactions.length > 0) {
+    const types = [...new Set(promptScan.redactions.map(r => r.type))].join(', ');
+    if (config.secrets.prompt === 'block') {
+      await staged.cleanup();
+      fail('SECRETS_IN_PROMPT', `The review prompt contains ${promptScan.redactions.length} likely secret(s) (${types})`,
+        'Check the Auracoil region and recent commit messages, or set secrets.prompt to "redact".');
+    }
+    log(chalk.yellow(`  ⚠ Redacted ${promptScan.redactions.length} secret(s) from the review prompt (${types})`));
+  }
+  const prompt = promptScan.content;
+
+  // Step 8: Record exactly what is about to leave the machine
+  const reviewId = newReviewId();
+  const headCommit = await getHeadCommit(git);
+  const audit: AuditRecord = {
+    id: reviewId,
+    createdAt: new Date().toISOString(),
+    dryRun: options.dryRun === true,
+    commit: headCommit,
+    reviewer: {
+      name: reviewer.name,
+      model: reviewer.model,
+      // What the backend resolved, env fallbacks and defaults included
+      ...(reviewer.endpoint !== undefined && { endpoint: reviewer.endpoint }),
+      ...(reviewer.command !== undefined && { command: reviewer.command }),
+    },
+    bundleHash: getBundleHash(bundle),
+    prompt: { hash: hashContent(prompt), chars: prompt.length },
+    files: [],
+    scan: summarizeScan(scanResult.issues, staged.redacted, staged.excluded.map(i => i.file), promptScan.redactions),
+  };
+  for (const file of files) {
+    if (staged.excluded.some(i => i.file === file)) continue;
+    const redacted = staged.redacted.find(r => r.file === file);
+    audit.files.push({
+      path: file,
+      hash: bundle.contentHashes.get(file) ?? '',
+      ...(redacted && {
+        redactions: redacted.redactions.length,
+        sentHash: hashContent(await readFile(redacted.stagedPath, 'utf-8')),
+      }),
+    });
+  }
+
+  const auditStore = new AuditStore(cwd);
+  const auditPath = await auditStore.save(audit, options.dryRun ? prompt : undefined);
+
+  if (options.dryRun) {
+    await staged.cleanup();
+    log(chalk.cyan('\n  Dry run: nothing was sent.\n'));
+    log(`  Reviewer: ${reviewer.model} (${reviewer.name})`);
+    log(`  Prompt:   ${prompt.length.toLocaleString()} chars, hash ${audit.prompt.hash}`);
+    log(`  Files:    ${audit.files.length}`);
+    for (const file of audit.files) {
+      const note = file.redactions ? chalk.yellow(` (${file.redactions} redacted)`) : '';
+      log(chalk.dim(`    ${file.path}`) + note);
+    }
+    log(chalk.green(`\n  ✓ Audit record saved to ${relative(cwd, auditPath)}`));
+    log(chalk.green(`  ✓ Prompt saved to ${relative(cwd, auditStore.promptPathFor(reviewId))}\n`));
+
+    emit({
+      dryRun: true,
+      audit,
+      path: relative(cwd, auditPath),
+      promptPath: relative(cwd, auditStore.promptPathFor(reviewId)),
+    });
+    return;
+  }
+  log(chalk.dim(`  Audit record: ${relative(cwd, auditPath)}`));
+
+  // Step 9: Send to the reviewer
+  log(chalk.cyan(`\n  Sending to ${reviewer.model} (${reviewer.name}) for review...`));
+  if (reviewer.name === 'oracle') {
+    log(chalk.dim('  This may take 5-15 minutes.\n'));
+  }
 
-  const result = await executeOracle({
+  const startedAt = Date.now();
+  const result = await reviewer.review({
     prompt,
-    files: safeFiles.map(f => join(cwd, f)),
-    model: 'gpt-5.2-pro',
-    timeout: 1800000, // 30 minutes
-  });
+    files: staged.paths,
+    labels: staged.labels,
+    timeout: config.reviewer.timeout,
+  }).finally(() => staged.cleanup());
+  const durationMs = Date.now() - startedAt;
 
   if (!result.success) {
-    console.log(chalk.red(`\n  \u2717 Review failed: ${result.error}\n`));
-    process.exit(1);
+    fail('REVIEWER_FAILED', `Review failed: ${result.error}`);
   }
 
-  // Step 9: Save raw review output
-  const reviewDir = join(cwd, '.auracoil', 'reviews');
-  await mkdir(reviewDir, { recursive: true });
-  const date = new Date().toISOString().split('T')[0];
-  const reviewPath = join(reviewDir, `review-${date}.json`);
-  await writeFile(reviewPath, result.output);
-  console.log(chalk.green(`  \u2713 Review saved to ${reviewPath}`));
+  // Step 10: Validate and save structured review output
+  const store = new ReviewStore(cwd);
+  const parsed = parseReviewResult(result.output);
 
-  // Step 10: Update state
-  let headCommit: string | null = null;
-  try {
-    const log = await git.log({ maxCount: 1 });
-    headCommit = log.latest?.hash || null;
-  } catch { /* not a git repo */ }
+  if (!parsed.ok) {
+    const rawPath = await store.saveRaw(result.output);
+    fail('INVALID_REVIEW_OUTPUT', `${parsed.error}`, `Raw answer saved to ${rawPath}`);
+  }
+
+  const report = formatParseReport(parsed);
+  if (report) {
+    log(chalk.yellow(report.split('\n').map(l => `  ${l}`).join('\n')));
+  }
+
+  // Track suggestions as findings; matched suggestions take the finding's id
+  const reviewedAt = new Date();
+  const sync = await state.syncFindings(parsed.result.suggestions, reviewId);
+  for (const suggestion of parsed.result.suggestions) {
+    suggestion.id = sync.idMap[suggestion.id] ?? suggestion.id;
+  }
 
+  const record = await store.save(parsed.result, {
+    commit: headCommit,
+    bundleHash: getBundleHash(bundle),
+    reviewer: reviewer.name,
+    model: reviewer.model,
+    durationMs,
+    rejectedCount: parsed.rejected.length,
+  }, reviewedAt, reviewId);
+  log(chalk.green(`  \u2713 Review ${record.id} saved to ${store.pathFor(record)}`));
+  log(chalk.dim(`    ${parsed.result.suggestions.length} suggestion(s), ${parsed.rejected.length} rejected`));
+  log(chalk.dim(`    Findings: ${sync.added.length} new, ${sync.matched.length} recurring, ` +
+    `${sync.reopened.length} reopened, ${sync.autoResolved.length} auto-resolved`));
+
+  // Step 11: Update state
   await state.update({
     lastReviewedCommit: headCommit,
     lastReviewedAt: new Date().toISOString(),
   });
 
-  // Step 11: Summary
-  console.log(chalk.cyan('\n  Review complete!'));
-  console.log(chalk.dim('  The agent will present suggestions for your approval.\n'));
+  // Step 12: Summary
+  log(chalk.cyan('\n  Review complete!'));
+  log(chalk.dim('  The agent will present suggestions for your approval.\n'));
+
+  emit({
+    review: record,
+    path: store.pathFor(record),
+    findings: {
+      added: sync.added,
+      matched: sync.matched,
+      reopened: sync.reopened,
+      autoResolved: sync.autoResolved,
+    },
+    rejected: parsed.rejected,
+    repairs: parsed.repairs,
+    redacted: staged.redacted.map(({ file, redactions }) => ({ file, redactions })),
+    excluded: staged.excluded.map(i => i.file),
+    promptRedactions: promptScan.redactions,
+    audit: relative(cwd, auditPath),
+  });
+}
+
+async function getHeadCommit(git: SimpleGit): Promise<string | null> {
+  try {
+    const gitLog = await git.log({ maxCount: 1 });
+    return gitLog.latest?.hash || null;
+  } catch {
+    return null; // not a git repo
+  }
 }
@@ -0,0 +1,95 @@
+/**
+ * Scan Command
+ *
+ * Run the secret scanner over the repo (or the given paths) and report
+ * findings not yet accepted in .auracoil/secrets-baseline.json. With
+ * --update-baseline, every current finding is accepted instead, except
+ * sensitive files, which are never accepted. Exits 1 on new findings so
+ * it can gate pre-commit hooks and CI.
+ */
+
+import { stat } from 'fs/promises';
+import { join, relative } from 'path';
+import chalk from 'chalk';
+import { glob } from 'glob';
+import { loadPathFilter } from '../analyzer/path-filter.js';
+import { scanForSecrets, formatScanResults, ALLOW_PRAGMA } from '../security/secret-scanner.js';
+import { loadBaseline, saveBaseline, partitionByBaseline, isAcceptable, BASELINE_PATH } from '../security/secret-baseline.js';
+import { loadConfig } from '../config/config.js';
+import { log, emit, fail } from './output.js';
+
+interface ScanOptions {
+  updateBaseline?: boolean;
+}
+
+export async function scanCommand(paths: string[], options: ScanOptions): Promise<void> {
+  const cwd = process.cwd();
+
+  log(chalk.cyan('\n  Auracoil Secret Scan\n'));
+
+  const config = await loadConfig(cwd).catch((err: Error) => fail('INVALID_CONFIG', err.message));
+
+  const filter = await loadPathFilter(cwd, { includePatterns: config.include, excludePatterns: config.exclude });
+  const listFiles = async (dir: string) => {
+    const found = await glob(dir ? `${dir}/**/*` : '**/*', { cwd, nodir: true, dot: true, ignore: filter.globIgnore() });
+    return found.map(f => f.replace(/\\/g, '/'));
+  };
+
+  let files: string[];
+  if (paths.length > 0) {
+    const targets = paths.map(p => relative(cwd, join(cwd, p)).replace(/\\/g, '/'));
+    const outside = targets.filter(f => f.startsWith('..'));
+    if (outside.length > 0) {
+      fail('INVALID_OPTION', `Paths outside the repository: ${outside.join(', ')}`);
+    }
+    // Named files are scanned as given; directories expand to what the filter accepts
+    files = [];
+    for (const target of targets) {
+      const isDir = await stat(join(cwd, target)).then(s => s.isDirectory(), () => false);
+      files.push(...(isDir ? await listFiles(target) : [target]));
+    }
+    files = [...new Set(files)].sort();
+  } else {
+    // Everything a review could attach; Auracoil's own state is skipped
+    files = (await listFiles('')).filter(f => !f.startsWith('.auracoil/')).sort();
+  }
+
+  const result = await scanForSecrets(cwd, files, { entropy: config.secrets.entropy });
+  const baseline = await loadBaseline(cwd);
+  const { accepted, fresh } = partitionByBaseline(result.issues, baseline);
+
+  log(`  Scanned ${files.length} file(s)\n`);
+  log(formatScanResults({ safe: fresh.length === 0, issues: fresh }).split('\n').map(l => `  ${l}`).join('\n'));
+  if (accepted.length > 0) {
+    log(chalk.dim(`  ${accepted.length} finding(s) already accepted in ${BASELINE_PATH}`));
+  }
+
+  // Sensitive files are never accepted; they stay excluded from reviews
+  const unacceptable = fresh.filter(i => !isAcceptable(i));
+
+  if (options.updateBaseline) {
+    // Entries for files outside this scan are kept as they were
+    const scanned = new Set(files);
+    const kept = (baseline?.secrets ?? []).filter(s => !scanned.has(s.file));
+    const accepting = result.issues.filter(isAcceptable);
+    await saveBaseline(cwd, [...kept, ...accepting]);
+    log(chalk.green(`  ✓ Saved ${accepting.length + kept.length} accepted finding(s) to ${BASELINE_PATH}`));
+    if (unacceptable.length > 0) {
+      log(chalk.yellow(`  ⚠ ${unacceptable.length} sensitive file(s) can't be accepted and stay excluded from reviews`));
+    }
+  } else if (fresh.length > 0) {
+    log(chalk.dim(`  Mark false positives with an \`${ALLOW_PRAGMA}\` comment on or above the line,`));
+    log(chalk.dim('  or run `auracoil scan --update-baseline` to accept every current finding.'));
+  }
+  log('');
+
+  emit({
+    files: files.length,
+    issues: fresh,
+    accepted: accepted.length,
+    baseline: BASELINE_PATH,
+    updated: Boolean(options.updateBaseline),
+  });
+
+  if (options.updateBaseline ? unacceptable.length > 0 : fresh.length > 0) process.exitCode = 1;
+}
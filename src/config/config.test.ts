@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { loadConfig, loadConfigLayers, mergeConfigLayers, validateConfig, ConfigError, DEFAULT_AURACOIL_CONFIG } from './config.js';
+
+describe('validateConfig', () => {
+  it('should accept an empty file', () => {
+    expect(validateConfig(null)).toEqual([]);
+  });
+
+  it('should report each invalid field by path', () => {
+    expect(validateConfig({
+      analysis: { maxFiles: 0 },
+      exclude: 'dist/**',
+      reviewer: { kind: 'gemini' },
+    })).toEqual([
+      'analysis.maxFiles must be a positive integer',
+      'exclude must be a list of strings',
+      'reviewer.kind must be one of oracle, http, command, fixture',
+    ]);
+  });
+
+  it('should accept fractional entropy thresholds', () => {
+    expect(validateConfig({ secrets: { entropy: { base64Threshold: 4.2, hexThreshold: 0 } } })).toEqual([
+      'secrets.entropy.hexThreshold must be a positive number',
+    ]);
+  });
+
+  it('should ignore unknown keys', () => {
+    expect(validateConfig({ version: '1.0', generate: { sectionMarkers: true } })).toEqual([]);
+  });
+});
+
+describe('loadConfig', () => {
+  let repoDir: string;
+  let userDir: string;
+
+  beforeEach(async () => {
+    repoDir = await mkdtemp(join(tmpdir(), 'auracoil-config-'));
+    userDir = await mkdtemp(join(tmpdir(), 'auracoil-user-'));
+    await mkdir(join(repoDir, '.auracoil'));
+  });
+
+  afterEach(async () => {
+    await rm(repoDir, { recursive: true });
+    await rm(userDir, { recursive: true });
+  });
+
+  it('should use defaults without config files', async () => {
+    const config = await loadConfig(repoDir, { userConfigPath: null, env: {} });
+    expect(config).toEqual(DEFAULT_AURACOIL_CONFIG);
+  });
+
+  it('should layer user config, project config and env overrides', async () => {
+    const userPath = join(userDir, 'config.yaml');
+    await writeFile(userPath, 'reviewer:\n  kind: http\n  model: qwen2.5-coder\nanalysis:\n  maxFiles: 20\n');
+    await writeFile(join(repoDir, '.auracoil', 'config.yaml'),
+      'analysis:\n  maxTokens: 40000\nexclude:\n  - "**/fixtures/**"\ndocs:\n  agents: docs/AGENTS.md\n');
+
+    const config = await loadConfig(repoDir, {
+      userConfigPath: userPath,
+      env: { AURACOIL_MAX_FILES: '10', AURACOIL_STALE_DAYS: '14' },
+    });
+
+    expect(config.reviewer).toEqual({ kind: 'http', model: 'qwen2.5-coder', timeout: 1_800_000 });
+    expect(config.analysis).toEqual({ maxFiles: 10, maxTotalSize: 500_000, maxTokens: 40000 });
+    expect(config.exclude).toEqual(['**/fixtures/**']);
+    expect(config.staleness).toEqual({ maxChangedFiles: 5, maxDays: 14 });
+    expect(config.docs.agents).toBe('docs/AGENTS.md');
+  });
+
+  it('should drop unknown keys from the effective config', async () => {
+    await writeFile(join(repoDir, '.auracoil', 'config.yaml'), "version: '1.0'\noracle:\n  timeout: 600000\n");
+
+    const config = await loadConfig(repoDir, { userConfigPath: null, env: {} });
+    expect(config).toEqual(DEFAULT_AURACOIL_CONFIG);
+  });
+
+  it('should name the file with invalid values', async () => {
+    const path = join(repoDir, '.auracoil', 'config.yaml');
+    await writeFile(path, 'staleness:\n  maxDays: soon\n');
+
+    const error = await loadConfig(repoDir, { userConfigPath: null, env: {} }).catch(e => e);
+    expect(error).toBeInstanceOf(ConfigError);
+    expect(error.source).toBe(path);
+    expect(error.issues).toEqual(['staleness.maxDays must be a positive integer']);
+  });
+
+  it('should reject malformed YAML', async () => {
+    await writeFile(join(repoDir, '.auracoil', 'config.yaml'), 'analysis: [unclosed\n');
+
+    await expect(loadConfig(repoDir, { userConfigPath: null, env: {} })).rejects.toThrow('not valid YAML');
+  });
+
+  it('should reject invalid environment overrides', async () => {
+    await expect(loadConfig(repoDir, { userConfigPath: null, env: { AURACOIL_REVIEWER: 'gemini' } }))
+      .rejects.toThrow('AURACOIL_REVIEWER must be one of');
+  });
+
+  it('should ignore a project endpoint the user config does not confirm', async () => {
+    const userPath = join(userDir, 'config.yaml');
+    await writeFile(join(repoDir, '.auracoil', 'config.yaml'),
+      'reviewer:\n  kind: http\n  endpoint: https://collector.example.com/v1\n  trustedEndpoints:\n    - https://collector.example.com/v1\n');
+
+    await writeFile(userPath, 'reviewer:\n  model: qwen2.5-coder\n');
+    const layers = await loadConfigLayers(repoDir, { userConfigPath: userPath, env: {} });
+    expect(layers[1].ignored).toEqual(['reviewer.trustedEndpoints', 'reviewer.endpoint']);
+    expect(mergeConfigLayers(layers).reviewer).toEqual({ kind: 'http', model: 'qwen2.5-coder', timeout: 1_800_000 });
+
+    await writeFile(userPath, 'reviewer:\n  trustedEndpoints:\n    - https://collector.example.com/v1/\n');
+    const trusted = await loadConfig(repoDir, { userConfigPath: userPath, env: {} });
+    expect(trusted.reviewer.endpoint).toBe('https://collector.example.com/v1');
+  });
+
+  it('should apply a project command or Chrome path only when the user config trusts it', async () => {
+    const userPath = join(userDir, 'config.yaml');
+    await writeFile(userPath, 'reviewer:\n  trustedCommands:\n    - llm -m gpt-4o\n');
+    await writeFile(join(repoDir, '.auracoil', 'config.yaml'),
+      'reviewer:\n  command: llm -m gpt-4o\noracle:\n  chromePath: ./bin/chrome\n  trustedChromePaths:\n    - ./bin/chrome\n');
+
+    const layers = await loadConfigLayers(repoDir, { userConfigPath: userPath, env: {} });
+    expect(layers[1].ignored).toEqual(['oracle.trustedChromePaths', 'oracle.chromePath']);
+    const config = mergeConfigLayers(layers);
+    expect(config.reviewer.command).toBe('llm -m gpt-4o');
+    expect(config.oracle.chromePath).toBe(DEFAULT_AURACOIL_CONFIG.oracle.chromePath);
+  });
+
+  it('should ignore a project-only reviewer command and the switch to the command reviewer', async () => {
+    await writeFile(join(repoDir, '.auracoil', 'config.yaml'),
+      'reviewer:\n  kind: command\n  command: sh -c "touch /tmp/auracoil-pwned"\n');
+
+    const layers = await loadConfigLayers(repoDir, { userConfigPath: null, env: {} });
+    expect(layers[0].ignored).toEqual(['reviewer.command', 'reviewer.kind']);
+    const config = mergeConfigLayers(layers);
+    expect(config.reviewer.kind).toBe('oracle');
+    expect(config.reviewer.command).toBeUndefined();
+
+    const userPath = join(userDir, 'config.yaml');
+    await writeFile(userPath, 'reviewer:\n  kind: command\n');
+    const confirmed = await loadConfig(repoDir, { userConfigPath: userPath, env: {} });
+    expect(confirmed.reviewer.kind).toBe('command');
+    expect(confirmed.reviewer.command).toBeUndefined();
+  });
+});
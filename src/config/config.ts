@@ -0,0 +1,419 @@
+/**
+ * Configuration
+ *
+ * Layers, later wins:
+ *   1. Built-in defaults
+ *   2. User config     ($XDG_CONFIG_HOME or ~/.config)/auracoil/config.yaml
+ *   3. Project config  .auracoil/config.yaml
+ *   4. AURACOIL_* environment variables (see ENV_OVERRIDES)
+ *
+ * Objects merge key by key; arrays (include, exclude) replace. Each layer
+ * is validated on its own so errors name the file or variable at fault.
+ * Unknown keys are ignored.
+ *
+ * A cloned repo's project config can't pick where reviews go or what
+ * runs: its reviewer.endpoint, reviewer.command and oracle.chromePath only
+ * apply when the user config sets the same value or lists it as trusted
+ * (see GUARDED_FIELDS), and it can only switch reviewer.kind to oracle or
+ * http unless the user config picks the same kind. Ignored settings are
+ * reported on the layer.
+ */
+
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { homedir } from 'os';
+import yaml from 'js-yaml';
+import { DEFAULT_CONFIG as DEFAULT_CONTEXT_CONFIG } from '../analyzer/context-builder.js';
+import { DEFAULT_ENTROPY, type EntropyOptions } from '../security/secret-scanner.js';
+import { isReviewerKind, REVIEWER_KINDS, type ReviewerKind } from '../integrations/reviewer-registry.js';
+
+export interface AnalysisConfig {
+  maxFiles: number;
+  maxTotalSize: number;   // bytes
+  maxTokens: number;      // estimated
+}
+
+export interface ReviewerConfig {
+  kind: ReviewerKind;
+  model?: string;         // Backend default when unset
+  endpoint?: string;      // http reviewer
+  trustedEndpoints?: string[];  // Project endpoints this user accepts (user config only)
+  command?: string;       // command reviewer
+  trustedCommands?: string[];   // Project commands this user accepts (user config only)
+  timeout: number;        // ms
+}
+
+export interface OracleConfig {
+  model: string;
+  display: string;        // X display for browser automation
+  chromePath: string;
+  trustedChromePaths?: string[];  // Project Chrome paths this user accepts (user config only)
+}
+
+export interface StalenessConfig {
+  maxChangedFiles: number;  // Stale when more files changed since the last index
+  maxDays: number;          // ...or the index is older than this
+}
+
+export interface DocsConfig {
+  agents: string;         // Relative to the repo root
+  claude: string;
+}
+
+export const PROMPT_SECRET_ACTIONS = ['redact', 'block'] as const;
+export type PromptSecretAction = typeof PROMPT_SECRET_ACTIONS[number];
+
+export interface SecretsConfig {
+  entropy: EntropyOptions;      // Thresholds for flagging random-looking strings
+  prompt: PromptSecretAction;   // What to do when the review prompt itself has a secret
+}
+
+export interface AuracoilConfig {
+  analysis: AnalysisConfig;
+  include: string[];
+  exclude: string[];
+  reviewer: ReviewerConfig;
+  oracle: OracleConfig;
+  staleness: StalenessConfig;
+  docs: DocsConfig;
+  secrets: SecretsConfig;
+}
+
+export const DEFAULT_AURACOIL_CONFIG: AuracoilConfig = {
+  analysis: {
+    maxFiles: DEFAULT_CONTEXT_CONFIG.maxFiles,
+    maxTotalSize: DEFAULT_CONTEXT_CONFIG.maxTotalSize,
+    maxTokens: DEFAULT_CONTEXT_CONFIG.maxTokens,
+  },
+  include: [...DEFAULT_CONTEXT_CONFIG.includePatterns],
+  exclude: [...DEFAULT_CONTEXT_CONFIG.excludePatterns],
+  reviewer: {
+    kind: 'oracle',
+    timeout: 1_800_000,   // 30 minutes
+  },
+  oracle: {
+    model: 'gpt-5.2-pro',
+    display: ':99',
+    chromePath: '/usr/local/bin/google-chrome-wrapper',
+  },
+  staleness: {
+    maxChangedFiles: 5,
+    maxDays: 7,
+  },
+  docs: {
+    agents: 'AGENTS.md',
+    claude: 'CLAUDE.md',
+  },
+  secrets: {
+    entropy: { ...DEFAULT_ENTROPY },
+    prompt: 'redact',
+  },
+};
+
+// Environment variable -> config path
+const ENV_OVERRIDES: Record<string, string> = {
+  AURACOIL_REVIEWER: 'reviewer.kind',
+  AURACOIL_MODEL: 'reviewer.model',
+  AURACOIL_TIMEOUT: 'reviewer.timeout',
+  AURACOIL_MAX_FILES: 'analysis.maxFiles',
+  AURACOIL_MAX_TOTAL_SIZE: 'analysis.maxTotalSize',
+  AURACOIL_MAX_TOKENS: 'analysis.maxTokens',
+  AURACOIL_STALE_FILES: 'staleness.maxChangedFiles',
+  AURACOIL_STALE_DAYS: 'staleness.maxDays',
+  AURACOIL_AGENTS_MD: 'docs.agents',
+  AURACOIL_ORACLE_DISPLAY: 'oracle.display',
+  AURACOIL_CHROME_PATH: 'oracle.chromePath',
+  AURACOIL_PROMPT_SECRETS: 'secrets.prompt',
+};
+
+type FieldKind = 'positive-int' | 'positive-number' | 'string' | 'string-list' | 'reviewer' | 'prompt-action';
+
+const FIELDS: Record<string, FieldKind> = {
+  'analysis.maxFiles': 'positive-int',
+  'analysis.maxTotalSize': 'positive-int',
+  'analysis.maxTokens': 'positive-int',
+  'include': 'string-list',
+  'exclude': 'string-list',
+  'reviewer.kind': 'reviewer',
+  'reviewer.model': 'string',
+  'reviewer.endpoint': 'string',
+  'reviewer.trustedEndpoints': 'string-list',
+  'reviewer.command': 'string',
+  'reviewer.trustedCommands': 'string-list',
+  'reviewer.timeout': 'positive-int',
+  'oracle.model': 'string',
+  'oracle.display': 'string',
+  'oracle.chromePath': 'string',
+  'oracle.trustedChromePaths': 'string-list',
+  'staleness.maxChangedFiles': 'positive-int',
+  'staleness.maxDays': 'positive-int',
+  'docs.agents': 'string',
+  'docs.claude': 'string',
+  'secrets.entropy.minLength': 'positive-int',
+  'secrets.entropy.base64Threshold': 'positive-number',
+  'secrets.entropy.hexThreshold': 'positive-number',
+  'secrets.prompt': 'prompt-action',
+};
+
+type RawConfig = Record<string, unknown>;
+
+// Project-config fields that need the user's confirmation, and the user
+// list that confirms them
+const GUARDED_FIELDS: Array<{ path: string; trusted: string }> = [
+  { path: 'reviewer.endpoint', trusted: 'reviewer.trustedEndpoints' },
+  { path: 'reviewer.command', trusted: 'reviewer.trustedCommands' },
+  { path: 'oracle.chromePath', trusted: 'oracle.trustedChromePaths' },
+];
+
+// Backends a project config may pick on its own; the rest run local programs
+const PROJECT_REVIEWER_KINDS: ReviewerKind[] = ['oracle', 'http'];
+
+export class ConfigError extends Error {
+  constructor(readonly source: string, readonly issues: string[]) {
+    super(`Invalid configuration in ${source}:\n${issues.map(i => `  - ${i}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+export interface LoadConfigOptions {
+  userConfigPath?: string | null;   // null skips the user-level file
+  env?: NodeJS.ProcessEnv;
+}
+
+export interface ConfigLayer {
+  source: string;
+  values: RawConfig;
+  ignored?: string[];   // Paths set here but not applied
+}
+
+/**
+ * Load and validate the effective configuration for a repository.
+ */
+export async function loadConfig(repoRoot: string, options: LoadConfigOptions = {}): Promise<AuracoilConfig> {
+  return mergeConfigLayers(await loadConfigLayers(repoRoot, options));
+}
+
+/**
+ * Apply layers over the defaults, lowest priority first.
+ */
+export function mergeConfigLayers(layers: ConfigLayer[]): AuracoilConfig {
+  return layers.reduce<AuracoilConfig>(
+    (config, layer) => mergeConfig(config, pickKnownFields(layer.values)) as unknown as AuracoilConfig,
+    structuredClone(DEFAULT_AURACOIL_CONFIG)
+  );
+}
+
+/**
+ * The layers that contribute to the effective config, lowest priority first.
+ * Missing files are skipped; invalid ones throw ConfigError.
+ */
+export async function loadConfigLayers(repoRoot: string, options: LoadConfigOptions = {}): Promise<ConfigLayer[]> {
+  const env = options.env ?? process.env;
+  const userPath = options.userConfigPath === undefined ? defaultUserConfigPath(env) : options.userConfigPath;
+  const layers: ConfigLayer[] = [];
+
+  const userValues = userPath ? await readConfigFile(userPath) : null;
+  if (userPath && userValues) layers.push({ source: userPath, values: userValues });
+
+  const projectPath = join(repoRoot, '.auracoil', 'config.yaml');
+  const projectValues = await readConfigFile(projectPath);
+  if (projectValues) layers.push({ source: projectPath, ...withoutUntrustedFields(projectValues, userValues ?? {}) });
+
+  const fromEnv = configFromEnv(env);
+  if (Object.keys(fromEnv).length > 0) {
+    layers.push({ source: 'environment', values: fromEnv });
+  }
+
+  return layers;
+}
+
+export function defaultUserConfigPath(env: NodeJS.ProcessEnv = process.env): string {
+  const base = env.XDG_CONFIG_HOME || join(homedir(), '.config');
+  return join(base, 'auracoil', 'config.yaml');
+}
+
+/**
+ * Check a parsed config object; returns one message per problem.
+ */
+export function validateConfig(raw: unknown): string[] {
+  if (raw === null || raw === undefined) return [];
+  if (typeof raw !== 'object' || Array.isArray(raw)) return ['config must be a mapping'];
+
+  const issues: string[] = [];
+  for (const [path, kind] of Object.entries(FIELDS)) {
+    const value = getPath(raw as RawConfig, path);
+    if (value === undefined) continue;
+    const problem = checkField(value, kind);
+    if (problem) issues.push(`${path} ${problem}`);
+  }
+
+  for (const section of ['analysis', 'reviewer', 'oracle', 'staleness', 'docs', 'secrets']) {
+    const value = (raw as RawConfig)[section];
+    if (value !== undefined && value !== null && (typeof value !== 'object' || Array.isArray(value))) {
+      issues.push(`${section} must be a mapping`);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Drop project settings that would send reviews (and API keys) to a
+ * server, or run a program, the user hasn't confirmed.
+ */
+function withoutUntrustedFields(project: RawConfig, user: RawConfig): { values: RawConfig; ignored?: string[] } {
+  const ignored: string[] = [];
+  const values = structuredClone(project);
+
+  // Only the user can extend what's trusted
+  for (const { trusted } of GUARDED_FIELDS) {
+    if (getPath(values, trusted) !== undefined) {
+      deletePath(values, trusted);
+      ignored.push(trusted);
+    }
+  }
+
+  for (const { path, trusted } of GUARDED_FIELDS) {
+    const value = getPath(values, path);
+    if (typeof value !== 'string') continue;
+    const confirmed = [getPath(user, path), ...((getPath(user, trusted) as unknown[] | undefined) ?? [])];
+    if (!confirmed.some(v => normalizeTrusted(v) === normalizeTrusted(value))) {
+      deletePath(values, path);
+      ignored.push(path);
+    }
+  }
+
+  const kind = getPath(values, 'reviewer.kind');
+  if (typeof kind === 'string' && !(PROJECT_REVIEWER_KINDS as string[]).includes(kind) && getPath(user, 'reviewer.kind') !== kind) {
+    deletePath(values, 'reviewer.kind');
+    ignored.push('reviewer.kind');
+  }
+
+  return ignored.length > 0 ? { values, ignored } : { values };
+}
+
+function normalizeTrusted(value: unknown): unknown {
+  return typeof value === 'string' ? value.trim().replace(/\/+$/, '') : value;
+}
+
+async function readConfigFile(path: string): Promise<RawConfig | null> {
+  let content: string;
+  try {
+    content = await readFile(path, 'utf-8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw new ConfigError(path, [`cannot be read: ${(err as Error).message}`]);
+  }
+
+  let raw: unknown;
+  try {
+    raw = yaml.load(content);
+  } catch (err) {
+    throw new ConfigError(path, [`is not valid YAML: ${(err as Error).message.split('\n')[0]}`]);
+  }
+
+  const issues = validateConfig(raw);
+  if (issues.length > 0) throw new ConfigError(path, issues);
+  return (raw as RawConfig | null | undefined) ?? {};
+}
+
+function configFromEnv(env: NodeJS.ProcessEnv): RawConfig {
+  const values: RawConfig = {};
+  const issues: string[] = [];
+
+  for (const [name, path] of Object.entries(ENV_OVERRIDES)) {
+    const value = env[name];
+    if (value === undefined || value === '') continue;
+
+    if (FIELDS[path] === 'positive-int') {
+      const parsed = Number(value);
+      if (checkField(parsed, 'positive-int')) {
+        issues.push(`${name} must be a positive integer (got "${value}")`);
+        continue;
+      }
+      setPath(values, path, parsed);
+    } else {
+      const problem = checkField(value, FIELDS[path]);
+      if (problem) {
+        issues.push(`${name} ${problem}`);
+        continue;
+      }
+      setPath(values, path, value);
+    }
+  }
+
+  if (issues.length > 0) throw new ConfigError('environment', issues);
+  return values;
+}
+
+function checkField(value: unknown, kind: FieldKind): string | null {
+  switch (kind) {
+    case 'positive-int':
+      return Number.isInteger(value) && (value as number) > 0 ? null : 'must be a positive integer';
+    case 'positive-number':
+      return typeof value === 'number' && Number.isFinite(value) && value > 0 ? null : 'must be a positive number';
+    case 'string':
+      return typeof value === 'string' && value.trim().length > 0 ? null : 'must be a non-empty string';
+    case 'string-list':
+      return Array.isArray(value) && value.every(v => typeof v === 'string') ? null : 'must be a list of strings';
+    case 'reviewer':
+      return typeof value === 'string' && isReviewerKind(value)
+        ? null
+        : `must be one of ${REVIEWER_KINDS.join(', ')}`;
+    case 'prompt-action':
+      return typeof value === 'string' && (PROMPT_SECRET_ACTIONS as readonly string[]).includes(value)
+        ? null
+        : `must be one of ${PROMPT_SECRET_ACTIONS.join(', ')}`;
+  }
+}
+
+function mergeConfig(base: RawConfig | AuracoilConfig, override: RawConfig): RawConfig {
+  const merged: RawConfig = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    const current = merged[key];
+    if (isMapping(value) && isMapping(current)) {
+      merged[key] = mergeConfig(current, value);
+    } else if (value !== undefined && value !== null) {
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
+
+function pickKnownFields(values: RawConfig): RawConfig {
+  const known: RawConfig = {};
+  for (const path of Object.keys(FIELDS)) {
+    const value = getPath(values, path);
+    if (value !== undefined && value !== null) setPath(known, path, value);
+  }
+  return known;
+}
+
+function isMapping(value: unknown): value is RawConfig {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function getPath(obj: RawConfig, path: string): unknown {
+  let current: unknown = obj;
+  for (const key of path.split('.')) {
+    if (!isMapping(current)) return undefined;
+    current = current[key];
+  }
+  return current;
+}
+
+function deletePath(obj: RawConfig, path: string): void {
+  const keys = path.split('.');
+  const parent = getPath(obj, keys.slice(0, -1).join('.'));
+  if (isMapping(parent)) delete parent[keys[keys.length - 1]];
+}
+
+function setPath(obj: RawConfig, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let current = obj;
+  for (const key of keys.slice(0, -1)) {
+    if (!isMapping(current[key])) current[key] = {};
+    current = current[key] as RawConfig;
+  }
+  current[keys[keys.length - 1]] = value;
+}
@@ -6,18 +6,41 @@ import { reviewCommand } from './commands/review.js';
 import { healthCommand } from './commands/health.js';
 import { applyCommand } from './commands/apply.js';
 import { diffCommand } from './commands/diff.js';
+import { findingsCommand, updateFindingCommand } from './commands/findings.js';
+import { historyCommand } from './commands/history.js';
+import { configCommand } from './commands/config.js';
+import { indexCommand } from './commands/index-repo.js';
+import { lintCommand } from './commands/lint.js';
+import { scanCommand } from './commands/scan.js';
+import { configureOutput, fail } from './commands/output.js';
 
 const program = new Command();
 
 program
   .name('auracoil')
   .description('GPT 5.2 Pro reviewer for AGENTS.md — accretive documentation enhancement')
-  .version('0.2.0');
+  .version('0.2.0')
+  .option('--json', 'Print one machine-readable JSON result instead of text');
+
+// Every action sees the output mode; the command name (e.g. "findings reject") tags JSON results
+program.hook('preAction', (_root, action) => {
+  const names: string[] = [];
+  for (let cmd: Command | null = action; cmd && cmd !== program; cmd = cmd.parent) {
+    names.unshift(cmd.name());
+  }
+  configureOutput({ json: program.opts().json, command: names.join(' ') });
+});
 
 program
   .command('review')
-  .description('Send existing AGENTS.md to GPT 5.2 Pro for review (Oracle required)')
-  .option('--skip-preflight', 'Skip Oracle session health check')
+  .description('Send existing AGENTS.md to a reviewer model (GPT 5.2 Pro via Oracle by default)')
+  .option('--skip-preflight', 'Skip reviewer health check')
+  .option('--reviewer <kind>', 'Reviewer backend: oracle, http, command or fixture (default: oracle, or reviewer.kind in config)')
+  .option('-m, --model <name>', 'Model name passed to the reviewer')
+  .option('--endpoint <url>', 'Base URL of an OpenAI-compatible API (http reviewer)')
+  .option('--reviewer-command <cmd>', 'Executable that reads the prompt on stdin (command reviewer)')
+  .option('--fixture <dir>', 'Directory of canned answers (fixture reviewer)')
+  .option('--dry-run', 'Build the bundle, scan and prompt and save them under .auracoil/audit/ without calling the reviewer')
   .action(reviewCommand);
 
 program
@@ -27,17 +50,90 @@ program
 
 program
   .command('diff')
-  .description('Show diff between latest review suggestions and current AGENTS.md')
-  .option('-f, --file <filename>', 'Specific review file to compare')
+  .description('Preview each review suggestion as a diff of the AGENTS.md Auracoil region')
+  .option('-f, --file <ref>', 'Review to compare: id, file name, latest or latest~N')
+  .option('--id <ids...>', 'Preview only the suggestions with these ids')
   .action(diffCommand);
 
 program
   .command('apply')
   .description('Apply approved suggestions to AGENTS.md Auracoil region')
-  .option('-f, --file <filename>', 'Specific review file to apply')
+  .option('-f, --file <ref>', 'Review to apply: id, file name, latest or latest~N')
+  .option('--id <ids...>', 'Apply only the suggestions with these ids')
+  .option('--severity <level>', 'Apply only suggestions at or above this severity (low|medium|high)')
+  .option('--all', 'Apply every suggestion in the review')
+  .option('-i, --interactive', 'Accept or reject each suggestion interactively')
   .action(applyCommand);
 
-program.parse();
+const findings = program
+  .command('findings')
+  .description('List and triage findings tracked across reviews');
+
+findings
+  .command('list', { isDefault: true })
+  .description('List findings (open by default)')
+  .option('--status <status>', 'Filter by status (open|resolved|rejected|deferred|applied|all)')
+  .option('--severity <level>', 'Filter by severity (low|medium|high)')
+  .option('--section <name>', 'Filter by AGENTS.md section')
+  .action(findingsCommand);
+
+findings
+  .command('reject <id>')
+  .description('Reject a finding so future reviews stop raising it')
+  .option('-n, --note <text>', 'Why it was rejected (shown to GPT)')
+  .action((id, opts) => updateFindingCommand(id, 'rejected', opts));
+
+findings
+  .command('defer <id>')
+  .description('Defer a finding to deal with later')
+  .option('-n, --note <text>', 'Why it was deferred')
+  .action((id, opts) => updateFindingCommand(id, 'deferred', opts));
+
+findings
+  .command('resolve <id>')
+  .description('Mark a finding as resolved')
+  .option('-n, --note <text>', 'How it was resolved')
+  .action((id, opts) => updateFindingCommand(id, 'resolved', opts));
+
+findings
+  .command('reopen <id>')
+  .description('Reopen a finding')
+  .action((id, opts) => updateFindingCommand(id, 'open', opts));
+
+program
+  .command('history')
+  .description('Show past reviews and whether suggestions are converging')
+  .option('-l, --limit <n>', 'Number of reviews to show', '20')
+  .action(historyCommand);
+
+program
+  .command('index')
+  .description('Build or refresh .auracoil/index.json (only changed files are rescanned)')
+  .option('--full', 'Rescan every file')
+  .action(indexCommand);
+
+program
+  .command('lint')
+  .description('Check AGENTS.md against the repo offline (links, paths, commands, coverage)')
+  .option('-f, --file <path>', 'Document to lint (default: docs.agents from config)')
+  .option('-r, --rules <ids>', 'Comma-separated rule ids to run (default: all)')
+  .option('--fail-on <severity>', 'Exit 1 on findings at or above this severity: low, medium, high', 'medium')
+  .action(lintCommand);
+
+program
+  .command('scan [paths...]')
+  .description('Scan the repo (or paths) for secrets not yet accepted in .auracoil/secrets-baseline.json')
+  .option('--update-baseline', 'Accept every current finding into the baseline')
+  .action(scanCommand);
+
+program
+  .command('config')
+  .description('Show the effective configuration and where each layer came from')
+  .action(configCommand);
+
+program.parseAsync().catch((err: Error) => {
+  fail('INTERNAL_ERROR', err.message);
+});
 
 if (!process.argv.slice(2).length) {
   console.log(chalk.cyan('\n  Auracoil — GPT 5.2 Pro reviewer for AGENTS.md\n'));
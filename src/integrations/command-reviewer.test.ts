@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createCommandReviewer, splitCommand } from './command-reviewer.js';
+
+describe('splitCommand', () => {
+  it('should split on whitespace', () => {
+    expect(splitCommand('llm -m gpt-4o')).toEqual(['llm', '-m', 'gpt-4o']);
+  });
+
+  it('should honor quotes', () => {
+    expect(splitCommand(`sh -c "cat | wc -l" ''`)).toEqual(['sh', '-c', 'cat | wc -l', '']);
+  });
+});
+
+describe('Command Reviewer', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'auracoil-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true });
+  });
+
+  it('should pipe the prompt and inlined files to stdin', async () => {
+    const file = join(tempDir, 'notes.md');
+    await writeFile(file, 'attached content');
+    const reviewer = createCommandReviewer({ command: 'cat' });
+
+    const result = await reviewer.review({ prompt: 'Review this', files: [file] });
+    expect(result.success).toBe(true);
+    expect(result.output).toContain('Review this');
+    expect(result.output).toContain('attached content');
+  });
+
+  it('should report non-zero exits as failures', async () => {
+    const reviewer = createCommandReviewer({ command: 'sh -c "echo boom >&2; exit 3"' });
+    const result = await reviewer.review({ prompt: 'x', files: [] });
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('boom');
+  });
+
+  it('should time out slow commands', async () => {
+    const reviewer = createCommandReviewer({ command: 'sleep 5' });
+    const result = await reviewer.review({ prompt: 'x', files: [], timeout: 100 });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('timed out');
+  });
+
+  it('should fail the health check without a command', async () => {
+    const health = await createCommandReviewer({}).check();
+    expect(health.available).toBe(false);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Command Reviewer
+ *
+ * Pipes the prompt (with attached files inlined) to any executable on
+ * stdin and treats its stdout as the answer. Attached file paths are
+ * also exported as AURACOIL_FILES (newline-separated).
+ */
+
+import { spawn, execFile } from 'child_process';
+import { promisify } from 'util';
+import { buildInlinePrompt, type Reviewer, type ReviewerOptions } from './reviewer.js';
+
+const execFileAsync = promisify(execFile);
+
+const DEFAULT_TIMEOUT = 600000;
+
+export function createCommandReviewer(options: ReviewerOptions = {}): Reviewer {
+  const commandLine = options.command || process.env.AURACOIL_REVIEWER_COMMAND || '';
+  const [executable, ...args] = splitCommand(commandLine);
+
+  return {
+    name: 'command',
+    model: options.model || executable || 'unknown',
+    command: commandLine,
+
+    async check() {
+      if (!executable) {
+        return { available: false, message: 'No reviewer command configured (use --reviewer-command)' };
+      }
+      try {
+        await execFileAsync('which', [executable]);
+        return { available: true, message: `Command available: ${executable}` };
+      } catch {
+        return { available: false, message: `Command not found: ${executable}` };
+      }
+    },
+
+    async review({ prompt, files, labels, timeout = DEFAULT_TIMEOUT }) {
+      if (!executable) {
+        return { success: false, output: '', error: 'No reviewer command configured' };
+      }
+      if (!prompt || prompt.trim().length === 0) {
+        return { success: false, output: '', error: 'Prompt is required' };
+      }
+
+      const input = await buildInlinePrompt(prompt, files, labels);
+
+      return new Promise((resolve) => {
+        const child = spawn(executable, args, {
+          env: {
+            ...process.env,
+            AURACOIL_FILES: files.join('\n'),
+            ...(options.model ? { AURACOIL_MODEL: options.model } : {}),
+          },
+          stdio: ['pipe', 'pipe', 'pipe'],
+        });
+
+        let stdout = '';
+        let stderr = '';
+        let timedOut = false;
+
+        const timer = setTimeout(() => {
+          timedOut = true;
+          child.kill('SIGTERM');
+        }, timeout);
+
+        child.stdout.on('data', (data) => {
+          stdout += data.toString();
+        });
+
+        child.stderr.on('data', (data) => {
+          stderr += data.toString();
+        });
+
+        child.on('close', (code) => {
+          clearTimeout(timer);
+
+          if (timedOut) {
+            resolve({ success: false, output: '', error: `Reviewer command timed out after ${timeout / 1000}s` });
+          } else if (code === 0) {
+            resolve({ success: true, output: stdout });
+          } else {
+            resolve({
+              success: false,
+              output: '',
+              error: stderr.trim() || `Reviewer command exited with code ${code}`,
+            });
+          }
+        });
+
+        child.on('error', (err) => {
+          clearTimeout(timer);
+          resolve({ success: false, output: '', error: err.message });
+        });
+
+        // The child may exit before reading stdin; that's reported via close
+        child.stdin.on('error', () => {});
+        child.stdin.end(input);
+      });
+    },
+  };
+}
+
+/**
+ * Split a command line into argv, honoring single and double quotes.
+ */
+export function splitCommand(commandLine: string): string[] {
+  const args: string[] = [];
+  let current = '';
+  let quote: '"' | "'" | null = null;
+  let hasToken = false;
+
+  for (const ch of commandLine.trim()) {
+    if (quote) {
+      if (ch === quote) quote = null;
+      else current += ch;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+      hasToken = true;
+    } else if (/\s/.test(ch)) {
+      if (hasToken) {
+        args.push(current);
+        current = '';
+        hasToken = false;
+      }
+    } else {
+      current += ch;
+      hasToken = true;
+    }
+  }
+  if (hasToken) args.push(current);
+
+  return args;
+}
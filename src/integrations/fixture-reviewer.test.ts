@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createFixtureReviewer, loadManifest } from './fixture-reviewer.js';
+
+const ANSWER = '{"suggestions": [], "summary": "ok"}';
+
+describe('Fixture Reviewer', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'auracoil-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true });
+  });
+
+  it('should serve answer files in name order', async () => {
+    await writeFile(join(tempDir, '01-first.json'), ANSWER);
+    await writeFile(join(tempDir, '02-second.md'), 'second');
+    const reviewer = createFixtureReviewer({ fixture: tempDir });
+
+    expect((await reviewer.review({ prompt: 'p', files: [] })).output).toBe(ANSWER);
+    expect((await reviewer.review({ prompt: 'p', files: [] })).output).toBe('second');
+    // Last answer repeats once the list is exhausted
+    expect((await reviewer.review({ prompt: 'p', files: [] })).output).toBe('second');
+  });
+
+  it('should select a scenario by name', async () => {
+    await writeFile(join(tempDir, 'a.json'), 'A');
+    await writeFile(join(tempDir, 'b.json'), 'B');
+    const reviewer = createFixtureReviewer({ fixture: tempDir, model: 'b' });
+    expect((await reviewer.review({ prompt: 'p', files: [] })).output).toBe('B');
+  });
+
+  it('should replay recorded Oracle transcripts', async () => {
+    await writeFile(join(tempDir, 'run.transcript'),
+      `🧿 oracle 0.8.5\nLaunching browser mode (gpt-5.2-pro) with ~139 tokens.\nAnswer:\n${ANSWER}\n\n1234 tokens`);
+    const result = await createFixtureReviewer({ fixture: tempDir }).review({ prompt: 'p', files: [] });
+    expect(result.output).toBe(ANSWER);
+  });
+
+  it('should simulate failures from the manifest', async () => {
+    await writeFile(join(tempDir, 'fixture.json'), JSON.stringify({
+      scenarios: [
+        { name: 'timeout', fail: 'timeout' },
+        { name: 'malformed', fail: 'malformed' },
+        { name: 'crash', fail: 'exit', exitCode: 2 },
+      ],
+    }));
+
+    const timeout = await createFixtureReviewer({ fixture: tempDir, model: 'timeout' })
+      .review({ prompt: 'p', files: [], timeout: 5000 });
+    expect(timeout).toEqual({ success: false, output: '', error: 'Reviewer timed out after 5s' });
+
+    const malformed = await createFixtureReviewer({ fixture: tempDir, model: 'malformed' })
+      .review({ prompt: 'p', files: [] });
+    expect(malformed.success).toBe(true);
+    expect(() => JSON.parse(malformed.output)).toThrow();
+
+    const crash = await createFixtureReviewer({ fixture: tempDir, model: 'crash' })
+      .review({ prompt: 'p', files: [] });
+    expect(crash.error).toBe('Reviewer exited with code 2');
+  });
+
+  it('should simulate an unavailable session in the health check', async () => {
+    await writeFile(join(tempDir, 'fixture.json'), JSON.stringify({ available: false, scenarios: [] }));
+    expect((await createFixtureReviewer({ fixture: tempDir }).check()).available).toBe(false);
+  });
+
+  it('should derive scenarios without a manifest', async () => {
+    await writeFile(join(tempDir, 'review.json'), ANSWER);
+    await writeFile(join(tempDir, 'ignored.yaml'), 'x');
+    const manifest = await loadManifest(tempDir);
+    expect(manifest.scenarios).toEqual([{ name: 'review', file: 'review.json', transcript: false }]);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Fixture Reviewer
+ *
+ * Deterministic offline backend for tests and CI. Serves canned answers
+ * from a directory instead of calling a model.
+ *
+ * Directory layout:
+ *   fixture.json        optional manifest (see FixtureManifest)
+ *   *.json, *.md, *.txt canned answers, served in name order
+ *   *.transcript        recorded Oracle stdout, replayed through the
+ *                       same answer extraction as a live run
+ *
+ * Without a manifest every answer file becomes a scenario named after the
+ * file (minus extension). Pick one with --model <scenario>; otherwise
+ * scenarios are served in order, one per review call.
+ */
+
+import { readFile, readdir, stat } from 'fs/promises';
+import { join, extname, basename } from 'path';
+import { extractOracleAnswer } from './oracle.js';
+import type { Reviewer, ReviewerOptions, ReviewerResult } from './reviewer.js';
+
+export type FixtureFailure = 'timeout' | 'malformed' | 'exit';
+
+export interface FixtureScenario {
+  name: string;
+  file?: string;          // Answer file, relative to the fixture directory
+  transcript?: boolean;   // Treat file as a recorded Oracle transcript
+  fail?: FixtureFailure;
+  exitCode?: number;      // fail: exit
+  stderr?: string;        // fail: exit
+}
+
+export interface FixtureManifest {
+  available?: boolean;    // Simulate a failing pre-flight check
+  scenarios: FixtureScenario[];
+}
+
+const ANSWER_EXTENSIONS = ['.json', '.md', '.txt', '.transcript'];
+
+// Returned for fail: malformed — the kind of truncated answer a dropped session produces
+const MALFORMED_OUTPUT = '{"suggestions": [{"id": "truncated", "severity": "hi';
+
+export function createFixtureReviewer(options: ReviewerOptions = {}): Reviewer {
+  const dir = options.fixture || process.env.AURACOIL_FIXTURE_DIR || '';
+  const scenarioName = options.model;
+  let calls = 0;
+
+  return {
+    name: 'fixture',
+    model: scenarioName || 'fixture',
+
+    async check() {
+      if (!dir) {
+        return { available: false, message: 'No fixture directory configured (use --fixture <dir>)' };
+      }
+      try {
+        const manifest = await loadManifest(dir);
+        if (manifest.available === false) {
+          return { available: false, message: 'Fixture reviewer simulating an unavailable session' };
+        }
+        if (manifest.scenarios.length === 0) {
+          return { available: false, message: `No fixture answers in ${dir}` };
+        }
+        return { available: true, message: `Fixture reviewer: ${manifest.scenarios.length} scenario(s)` };
+      } catch {
+        return { available: false, message: `Fixture directory not found: ${dir}` };
+      }
+    },
+
+    async review({ prompt, timeout = 600000 }) {
+      if (!prompt || prompt.trim().length === 0) {
+        return { success: false, output: '', error: 'Prompt is required' };
+      }
+      if (!dir) {
+        return { success: false, output: '', error: 'No fixture directory configured' };
+      }
+
+      let manifest: FixtureManifest;
+      try {
+        manifest = await loadManifest(dir);
+      } catch (err) {
+        return { success: false, output: '', error: `Cannot read fixtures: ${(err as Error).message}` };
+      }
+
+      const scenario = scenarioName
+        ? manifest.scenarios.find(s => s.name === scenarioName)
+        : manifest.scenarios[Math.min(calls, manifest.scenarios.length - 1)];
+      calls++;
+
+      if (!scenario) {
+        const error = scenarioName
+          ? `Unknown fixture scenario "${scenarioName}"`
+          : `No fixture answers in ${dir}`;
+        return { success: false, output: '', error };
+      }
+
+      return playScenario(dir, scenario, timeout);
+    },
+  };
+}
+
+async function playScenario(dir: string, scenario: FixtureScenario, timeout: number): Promise<ReviewerResult> {
+  switch (scenario.fail) {
+    case 'timeout':
+      return { success: false, output: '', error: `Reviewer timed out after ${timeout / 1000}s` };
+    case 'exit':
+      return {
+        success: false,
+        output: '',
+        error: scenario.stderr || `Reviewer exited with code ${scenario.exitCode ?? 1}`,
+      };
+    case 'malformed':
+      return { success: true, output: MALFORMED_OUTPUT };
+  }
+
+  if (!scenario.file) {
+    return { success: false, output: '', error: `Fixture scenario "${scenario.name}" has no file` };
+  }
+
+  try {
+    const raw = await readFile(join(dir, scenario.file), 'utf-8');
+    return { success: true, output: scenario.transcript ? extractOracleAnswer(raw) : raw };
+  } catch {
+    return { success: false, output: '', error: `Fixture file not found: ${scenario.file}` };
+  }
+}
+
+/**
+ * Read fixture.json, or derive scenarios from the answer files present.
+ */
+export async function loadManifest(dir: string): Promise<FixtureManifest> {
+  await stat(dir);
+
+  try {
+    const manifest = JSON.parse(await readFile(join(dir, 'fixture.json'), 'utf-8')) as FixtureManifest;
+    return {
+      available: manifest.available,
+      scenarios: (manifest.scenarios || []).map(s => ({
+        ...s,
+        transcript: s.transcript ?? (s.file ? extname(s.file) === '.transcript' : false),
+      })),
+    };
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+  }
+
+  const files = (await readdir(dir))
+    .filter(f => f !== 'fixture.json' && ANSWER_EXTENSIONS.includes(extname(f)))
+    .sort();
+
+  return {
+    scenarios: files.map(file => ({
+      name: basename(file, extname(file)),
+      file,
+      transcript: extname(file) === '.transcript',
+    })),
+  };
+}
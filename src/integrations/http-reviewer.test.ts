@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createHttpReviewer } from './http-reviewer.js';
+
+describe('HTTP Reviewer', () => {
+  let server: Server;
+  let endpoint: string;
+  let lastBody: { model?: string; messages?: Array<{ content: string }> } = {};
+  let lastAuth: string | undefined;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        lastAuth = req.headers.authorization;
+        res.setHeader('Content-Type', 'application/json');
+        if (req.url === '/v1/models') {
+          res.end(JSON.stringify({ data: [] }));
+        } else if (req.url === '/v1/chat/completions') {
+          lastBody = JSON.parse(body);
+          if (lastBody.model === 'broken') {
+            res.statusCode = 500;
+            res.end(JSON.stringify({ error: { message: 'model crashed' } }));
+            return;
+          }
+          res.end(JSON.stringify({ choices: [{ message: { content: '{"suggestions":[],"summary":"ok"}' } }] }));
+        } else {
+          res.statusCode = 404;
+          res.end('{}');
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should pass the health check when /models responds', async () => {
+    const health = await createHttpReviewer({ endpoint }).check();
+    expect(health.available).toBe(true);
+  });
+
+  it('should return the first choice content', async () => {
+    const reviewer = createHttpReviewer({ endpoint, model: 'qwen' });
+    const result = await reviewer.review({ prompt: 'Review this', files: [] });
+    expect(result.success).toBe(true);
+    expect(result.output).toContain('suggestions');
+    expect(lastBody.model).toBe('qwen');
+    expect(lastBody.messages?.[0].content).toBe('Review this');
+  });
+
+  it('should surface API errors', async () => {
+    const reviewer = createHttpReviewer({ endpoint, model: 'broken' });
+    const result = await reviewer.review({ prompt: 'x', files: [] });
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('model crashed');
+  });
+
+  it('should report unreachable endpoints', async () => {
+    const health = await createHttpReviewer({ endpoint: 'http://127.0.0.1:1/v1' }).check();
+    expect(health.available).toBe(false);
+  });
+
+  it('should not send OPENAI_API_KEY to other endpoints', async () => {
+    vi.stubEnv('AURACOIL_API_KEY', '');
+    vi.stubEnv('OPENAI_API_KEY', 'sk-openai-key');
+    await createHttpReviewer({ endpoint }).check();
+    expect(lastAuth).toBeUndefined();
+
+    vi.stubEnv('AURACOIL_API_KEY', 'local-key');
+    await createHttpReviewer({ endpoint }).check();
+    expect(lastAuth).toBe('Bearer local-key');
+  });
+});
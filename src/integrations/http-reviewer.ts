@@ -0,0 +1,105 @@
+/**
+ * OpenAI-Compatible HTTP Reviewer
+ *
+ * Talks to any /v1/chat/completions endpoint — OpenAI itself, or a local
+ * llama.cpp / vLLM / Ollama server. Attached files are inlined into the
+ * prompt since chat endpoints have no file upload.
+ *
+ * OPENAI_API_KEY is only sent to api.openai.com; other endpoints need
+ * AURACOIL_API_KEY or an explicit key.
+ */
+
+import { buildInlinePrompt, type Reviewer, type ReviewerOptions } from './reviewer.js';
+
+const DEFAULT_ENDPOINT = 'http://localhost:8080/v1';
+const DEFAULT_MODEL = 'default';
+const DEFAULT_TIMEOUT = 600000;
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string } }>;
+  error?: { message?: string };
+}
+
+export function createHttpReviewer(options: ReviewerOptions = {}): Reviewer {
+  const endpoint = (options.endpoint || process.env.AURACOIL_ENDPOINT || DEFAULT_ENDPOINT).replace(/\/+$/, '');
+  const model = options.model || DEFAULT_MODEL;
+  const apiKey = options.apiKey || process.env.AURACOIL_API_KEY
+    || (isOpenAiEndpoint(endpoint) ? process.env.OPENAI_API_KEY : undefined);
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+  return {
+    name: 'http',
+    model,
+    endpoint,
+
+    async check() {
+      try {
+        const res = await fetch(`${endpoint}/models`, {
+          headers,
+          signal: AbortSignal.timeout(10000),
+        });
+        if (res.ok) {
+          return { available: true, message: `Endpoint reachable: ${endpoint}` };
+        }
+        return { available: false, message: `Endpoint ${endpoint} returned HTTP ${res.status}` };
+      } catch (err) {
+        return { available: false, message: `Endpoint ${endpoint} unreachable: ${(err as Error).message}` };
+      }
+    },
+
+    async review({ prompt, files, labels, timeout = DEFAULT_TIMEOUT }) {
+      if (!prompt || prompt.trim().length === 0) {
+        return { success: false, output: '', error: 'Prompt is required' };
+      }
+
+      const content = await buildInlinePrompt(prompt, files, labels);
+
+      try {
+        const res = await fetch(`${endpoint}/chat/completions`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            model,
+            messages: [{ role: 'user', content }],
+            temperature: 0,
+          }),
+          signal: AbortSignal.timeout(timeout),
+        });
+
+        const body = await res.json().catch(() => ({})) as ChatCompletionResponse;
+
+        if (!res.ok) {
+          return {
+            success: false,
+            output: '',
+            error: body.error?.message || `HTTP ${res.status} from ${endpoint}`,
+          };
+        }
+
+        const output = body.choices?.[0]?.message?.content;
+        if (typeof output !== 'string') {
+          return { success: false, output: '', error: 'Response had no message content' };
+        }
+
+        return { success: true, output };
+      } catch (err) {
+        const error = err as Error;
+        if (error.name === 'TimeoutError' || error.name === 'AbortError') {
+          return { success: false, output: '', error: `Request timed out after ${timeout / 1000}s` };
+        }
+        return { success: false, output: '', error: error.message };
+      }
+    },
+  };
+}
+
+function isOpenAiEndpoint(endpoint: string): boolean {
+  try {
+    const url = new URL(endpoint);
+    return url.protocol === 'https:' && url.hostname === 'api.openai.com';
+  } catch {
+    return false;
+  }
+}
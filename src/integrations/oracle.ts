@@ -12,6 +12,8 @@ import { join } from 'path';
 import { tmpdir } from 'os';
 import { randomBytes } from 'crypto';
 import chalk from 'chalk';
+import type { Reviewer, ReviewerOptions } from './reviewer.js';
+import { log } from '../commands/output.js';
 
 const execFileAsync = promisify(execFile);
 const execAsync = promisify(exec);
@@ -35,13 +37,25 @@ export interface OracleHealth {
   message: string;
 }
 
+export interface OracleEnvironment {
+  display: string;
+  chromePath: string;
+}
+
 // Environment variables required for Oracle browser automation
-const ORACLE_ENV = {
+let ORACLE_ENV: NodeJS.ProcessEnv = {
   ...process.env,
   DISPLAY: ':99',
   CHROME_PATH: '/usr/local/bin/google-chrome-wrapper',
 };
 
+/**
+ * Point Oracle at a different X display / Chrome binary (from config)
+ */
+export function configureOracleEnvironment({ display, chromePath }: OracleEnvironment): void {
+  ORACLE_ENV = { ...process.env, DISPLAY: display, CHROME_PATH: chromePath };
+}
+
 /**
  * Check if Oracle CLI is available
  */
@@ -116,8 +130,9 @@ export async function executeOracle(options: OracleOptions): Promise<OracleResul
   await mkdir(tempDir, { recursive: true });
   const outputFile = join(tempDir, `output-${randomBytes(8).toString('hex')}.md`);
 
-  console.log(chalk.dim(`\n  Oracle: Querying GPT 5.2 Pro...`));
-  console.log(chalk.dim(`  Files: ${files.length} file(s)`));
+  // Progress goes through log() so --json output stays a single document
+  log(chalk.dim(`\n  Oracle: Querying GPT 5.2 Pro...`));
+  log(chalk.dim(`  Files: ${files.length} file(s)`));
 
   return new Promise((resolve) => {
     // Build args array - this is how coding agents pass to Oracle
@@ -134,7 +149,7 @@ export async function executeOracle(options: OracleOptions): Promise<OracleResul
       args.push('-f', ...files);
     }
 
-    console.log(chalk.dim(`  Running: oracle --wait -p <prompt> -m ${model} -f <${files.length} files>`));
+    log(chalk.dim(`  Running: oracle --wait -p <prompt> -m ${model} -f <${files.length} files>`));
 
     const child = spawn('oracle', args, {
       env: ORACLE_ENV,
@@ -155,7 +170,7 @@ export async function executeOracle(options: OracleOptions): Promise<OracleResul
       stdout += chunk;
       // Show progress to user
       if (chunk.includes('Launching') || chunk.includes('Answer:')) {
-        console.log(chalk.dim(`  ${chunk.trim().split('\n')[0]}`));
+        log(chalk.dim(`  ${chunk.trim().split('\n')[0]}`));
       }
     });
 
@@ -188,10 +203,7 @@ export async function executeOracle(options: OracleOptions): Promise<OracleResul
       }
 
       // Extract answer from Oracle output if present
-      const answerMatch = output.match(/Answer:\n([\s\S]*?)(?:\n\n\d+.*tokens|$)/);
-      if (answerMatch) {
-        output = answerMatch[1].trim();
-      }
+      output = extractOracleAnswer(output);
 
       if (code === 0) {
         resolve({
@@ -227,6 +239,28 @@ export async function executeOracle(options: OracleOptions): Promise<OracleResul
   });
 }
 
+/**
+ * Strip Oracle's banner and token footer, leaving just the answer.
+ * Output without an "Answer:" marker is returned unchanged.
+ */
+export function extractOracleAnswer(output: string): string {
+  const answerMatch = output.match(/Answer:\n([\s\S]*?)(?:\n\n\d+.*tokens|$)/);
+  return answerMatch ? answerMatch[1].trim() : output;
+}
+
+/**
+ * Oracle as a pluggable reviewer backend
+ */
+export function createOracleReviewer(options: ReviewerOptions = {}): Reviewer {
+  const model = options.model || 'gpt-5.2-pro';
+  return {
+    name: 'oracle',
+    model,
+    check: checkOracleSession,
+    review: ({ prompt, files, timeout }) => executeOracle({ prompt, files, model, timeout }),
+  };
+}
+
 /**
  * Execute Oracle with streaming output (for long-running analyses)
  */
@@ -0,0 +1,35 @@
+/**
+ * Reviewer Registry
+ *
+ * Maps --reviewer names to backend factories.
+ */
+
+import { createOracleReviewer } from './oracle.js';
+import { createHttpReviewer } from './http-reviewer.js';
+import { createCommandReviewer } from './command-reviewer.js';
+import { createFixtureReviewer } from './fixture-reviewer.js';
+import type { Reviewer, ReviewerOptions } from './reviewer.js';
+
+export type ReviewerKind = 'oracle' | 'http' | 'command' | 'fixture';
+
+export const REVIEWER_KINDS: ReviewerKind[] = ['oracle', 'http', 'command', 'fixture'];
+
+export function isReviewerKind(value: string): value is ReviewerKind {
+  return (REVIEWER_KINDS as string[]).includes(value);
+}
+
+/**
+ * Create a reviewer backend by kind
+ */
+export function createReviewer(kind: ReviewerKind, options: ReviewerOptions = {}): Reviewer {
+  switch (kind) {
+    case 'oracle':
+      return createOracleReviewer(options);
+    case 'http':
+      return createHttpReviewer(options);
+    case 'command':
+      return createCommandReviewer(options);
+    case 'fixture':
+      return createFixtureReviewer(options);
+  }
+}
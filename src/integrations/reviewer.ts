@@ -0,0 +1,69 @@
+/**
+ * Reviewer Backends
+ *
+ * Common interface for anything that can answer a review prompt:
+ * Oracle (browser GPT), an OpenAI-compatible HTTP endpoint, an
+ * arbitrary command that reads the prompt on stdin, or canned fixtures.
+ */
+
+import { readFile } from 'fs/promises';
+import { relative } from 'path';
+
+export interface ReviewRequest {
+  prompt: string;
+  files: string[];    // Absolute paths
+  labels?: Record<string, string>;  // Path -> name to show the reviewer, e.g. for redacted copies
+  timeout?: number;   // ms
+}
+
+export interface ReviewerResult {
+  success: boolean;
+  output: string;
+  error?: string;
+}
+
+export interface ReviewerHealth {
+  available: boolean;
+  message: string;
+}
+
+export interface Reviewer {
+  readonly name: string;
+  readonly model: string;
+  readonly endpoint?: string;   // http: resolved base URL the prompt goes to
+  readonly command?: string;    // command: resolved command line that runs
+  check(): Promise<ReviewerHealth>;
+  review(request: ReviewRequest): Promise<ReviewerResult>;
+}
+
+export interface ReviewerOptions {
+  model?: string;
+  endpoint?: string;   // http: base URL, e.g. http://localhost:8080/v1
+  apiKey?: string;     // http: bearer token
+  command?: string;    // command: executable plus arguments
+  fixture?: string;    // fixture: directory of canned answers
+}
+
+/**
+ * Inline attached files after the prompt, for backends that can't take
+ * file attachments the way Oracle's -f does.
+ */
+export async function buildInlinePrompt(
+  prompt: string,
+  files: string[],
+  labels: Record<string, string> = {}
+): Promise<string> {
+  if (files.length === 0) return prompt;
+
+  const sections: string[] = [prompt, '', '## Attached Files'];
+  for (const file of files) {
+    try {
+      const content = await readFile(file, 'utf-8');
+      sections.push('', `### ${labels[file] ?? relative(process.cwd(), file)}`, '', '```', content.trimEnd(), '```');
+    } catch {
+      // Skip unreadable files
+    }
+  }
+
+  return sections.join('\n');
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { lintDocument, mentions, type LintContext } from './doc-lint.js';
+import { parseIgnorePatterns, PathFilter } from '../analyzer/path-filter.js';
+
+describe('lintDocument', () => {
+  let repoDir: string;
+
+  const context = (content: string, overrides: Partial<LintContext> = {}): LintContext => ({
+    repoPath: repoDir,
+    docPath: 'AGENTS.md',
+    content,
+    index: {
+      languages: [
+        { name: 'TypeScript', extension: '.ts', fileCount: 20, lineCount: 4000 },
+        { name: 'Python', extension: '.py', fileCount: 3, lineCount: 600 },
+        { name: 'Shell', extension: '.sh', fileCount: 1, lineCount: 10 },
+      ],
+      frameworks: ['Rust/Tokio'],
+      commands: [{ kind: 'npm-script', name: 'build', command: 'npm run build', source: 'package.json' }],
+    },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    repoDir = await mkdtemp(join(tmpdir(), 'auracoil-lint-'));
+    await mkdir(join(repoDir, 'src', 'commands'), { recursive: true });
+    await mkdir(join(repoDir, 'docs'));
+    await writeFile(join(repoDir, 'src', 'index.ts'), '');
+    await writeFile(join(repoDir, 'docs', 'setup.md'), '');
+  });
+
+  afterEach(async () => {
+    await rm(repoDir, { recursive: true });
+  });
+
+  it('should flag broken links, missing paths and unknown commands', async () => {
+    const doc = [
+      '# Project',
+      'TypeScript and Python, on tokio.',
+      'See [setup](docs/setup.md), [deploy](docs/deploy.md#steps) and [site](https://example.com).',
+      '## Layout',
+      '- `src/index.ts` is the entry, `src/server.ts` the server, `text/plain` is not a path',
+      '## Commands',
+      'Run `npm run build` then `npm run deploy`.',
+    ].join('\n');
+
+    const findings = await lintDocument(context(doc), { now: new Date('2026-03-01T00:00:00Z') });
+
+    expect(findings.map(f => [f.id, f.severity, f.section, f.line])).toEqual([
+      ['broken-link:docs-deploy-md', 'high', 'Project', 3],
+      ['unknown-command:npm-deploy', 'high', 'Commands', 7],
+      ['missing-path:src-server-ts', 'medium', 'Layout', 5],
+    ]);
+    expect(findings[0]).toMatchObject({ rule: 'broken-link', status: 'open', type: 'correct', introducedAt: '2026-03-01T00:00:00.000Z' });
+  });
+
+  it('should report major languages and frameworks that are never mentioned', async () => {
+    const findings = await lintDocument(context('# Notes\nNothing about the stack.\n'));
+
+    expect(findings.map(f => f.id)).toEqual([
+      'undocumented-language:typescript',
+      'undocumented-language:python',
+      'undocumented-framework:rust-tokio',
+    ]);
+  });
+
+  it('should report links with invalid percent-encoding as broken instead of throwing', async () => {
+    const findings = await lintDocument(context('See [the plan](docs/100%.md).\n'), { only: ['broken-link'] });
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ rule: 'broken-link', line: 1 });
+    expect(findings[0].suggestion).toContain('malformed');
+  });
+
+  it('should skip ignored paths and run only the selected rules', async () => {
+    const filter = new PathFilter(parseIgnorePatterns(['dist/']));
+    await mkdir(join(repoDir, 'dist'));
+    const doc = 'Built to `dist/index.js`; see `src/missing.ts` and [x](nope.md).';
+
+    const findings = await lintDocument(context(doc, { filter }), { only: ['missing-path'] });
+
+    expect(findings.map(f => f.id)).toEqual(['missing-path:src-missing-ts']);
+  });
+});
+
+describe('mentions', () => {
+  it('should match whole words case-insensitively', () => {
+    expect(mentions('Built with Go and TypeScript', 'go')).toBe(true);
+    expect(mentions('Uses Django', 'go')).toBe(false);
+    expect(mentions('see src/index.ts.', 'src/index.ts')).toBe(true);
+  });
+});
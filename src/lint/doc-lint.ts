@@ -0,0 +1,279 @@
+/**
+ * Doc Lint
+ *
+ * Offline checks of AGENTS.md against the repository — no model needed.
+ * Each rule has a stable id and a default severity; results are Findings
+ * (plus the rule id and line) so they read like review output.
+ *
+ * Rules:
+ *   broken-link             high    Relative markdown link to a missing file
+ *   unknown-command         high    Script/target the repo doesn't define
+ *   missing-path            medium  Code-formatted path that doesn't exist
+ *   undocumented-language   low     Major language never mentioned
+ *   undocumented-framework  low     Detected framework never mentioned
+ */
+
+import { access } from 'fs/promises';
+import { join, posix } from 'path';
+import type { Finding } from '../state/state-manager.js';
+import type { Severity } from '../prompts/review-result.js';
+import type { RepoIndex } from '../analyzer/repo-indexer.js';
+import type { PathFilter } from '../analyzer/path-filter.js';
+import { findUnknownCommands, RUNNER_KINDS } from '../analyzer/command-check.js';
+
+export interface LintContext {
+  repoPath: string;
+  docPath: string;          // Repo-relative path of the linted document
+  content: string;
+  index: Pick<RepoIndex, 'languages' | 'frameworks' | 'commands'>;
+  filter?: PathFilter;      // Missing-but-ignored paths are build output, not errors
+}
+
+export interface LintIssue {
+  key: string;              // Distinguishes issues of one rule; becomes part of the finding id
+  line?: number;
+  message: string;
+  evidence: string;
+  type?: Finding['type'];
+}
+
+export interface LintRule {
+  id: string;
+  severity: Severity;
+  description: string;
+  check(ctx: LintContext): Promise<LintIssue[]> | LintIssue[];
+}
+
+export interface LintFinding extends Finding {
+  rule: string;
+  line?: number;
+}
+
+// Languages below this share of lines aren't worth a mention
+const LANGUAGE_SHARE_MIN = 0.05;
+
+const PATH_EXTENSIONS = 'ts|tsx|js|jsx|mjs|cjs|py|rs|go|rb|java|kt|swift|c|cpp|h|cs|php|ex|exs|md|mdx|json|ya?ml|toml|ini|cfg|sh|sql|lock|txt';
+const CODE_PATH = new RegExp(`^(?:\\.{0,2}/)?(?:[\\w@.-]+/)+[\\w@.-]*/?$|^[\\w@.-]+\\.(?:${PATH_EXTENSIONS})$`);
+
+export const DEFAULT_RULES: LintRule[] = [
+  {
+    id: 'broken-link',
+    severity: 'high',
+    description: 'Relative markdown link to a file that does not exist',
+    async check(ctx) {
+      const issues: LintIssue[] = [];
+      for (const { text, line } of eachLine(ctx.content)) {
+        for (const match of text.matchAll(/!?\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g)) {
+          const target = match[1];
+          if (/^(?:[a-z][a-z0-9+.-]*:|#|\/\/)/i.test(target)) continue;
+          let file: string;
+          try {
+            file = decodeURI(target.split(/[#?]/)[0]);
+          } catch {
+            issues.push({
+              key: target,
+              line,
+              message: `Link to \`${target}\` is malformed`,
+              evidence: `${ctx.docPath}:${line} links to ${target}, which has invalid percent-encoding`,
+              type: 'correct',
+            });
+            continue;
+          }
+          if (!file) continue;
+          const resolved = resolveDocPath(ctx.docPath, file);
+          if (await exists(ctx.repoPath, resolved)) continue;
+          issues.push({
+            key: resolved,
+            line,
+            message: `Link to \`${target}\` points at a file that does not exist`,
+            evidence: `${ctx.docPath}:${line} links to ${resolved}, which is not in the repository`,
+            type: 'correct',
+          });
+        }
+      }
+      return issues;
+    },
+  },
+  {
+    id: 'unknown-command',
+    severity: 'high',
+    description: 'Command names a script or target the repository does not define',
+    check(ctx) {
+      return findUnknownCommands(ctx.content, ctx.index.commands).map(cmd => ({
+        key: `${cmd.runner}-${cmd.target}`,
+        line: cmd.line,
+        message: `\`${cmd.command}\` runs ${cmd.runner} target "${cmd.target}", which the repository does not define`,
+        evidence: `No ${cmd.runner} script or target named "${cmd.target}" in ${sourcesFor(ctx, cmd.runner)}`,
+        type: 'correct',
+      }));
+    },
+  },
+  {
+    id: 'missing-path',
+    severity: 'medium',
+    description: 'Code-formatted path that does not exist in the repository',
+    async check(ctx) {
+      const issues: LintIssue[] = [];
+      const seen = new Set<string>();
+      for (const { text, line, inFence } of eachLine(ctx.content)) {
+        if (inFence) continue;
+        for (const span of text.matchAll(/`([^`\s]+)`/g)) {
+          const candidate = span[1];
+          if (!CODE_PATH.test(candidate) || /[*<>{}$]/.test(candidate) || /^\.+\/?$/.test(candidate)) continue;
+          // Bare `name.ext` may be a file anywhere; only check ones that name a directory
+          if (!candidate.includes('/')) continue;
+
+          const path = posix.normalize(candidate.replace(/^\.\//, '')).replace(/\/$/, '');
+          if (seen.has(path)) continue;
+          seen.add(path);
+
+          if (await exists(ctx.repoPath, path)) continue;
+          if (await exists(ctx.repoPath, resolveDocPath(ctx.docPath, candidate))) continue;
+          // Only paths rooted in an existing top-level entry; skips package names, MIME types, ...
+          if (!(await exists(ctx.repoPath, path.split('/')[0]))) continue;
+          if (ctx.filter?.isExcluded(path)) continue;
+          issues.push({
+            key: path,
+            line,
+            message: `\`${candidate}\` is not a path in the repository`,
+            evidence: `${ctx.docPath}:${line} mentions ${path}, which does not exist`,
+            type: 'flag-stale',
+          });
+        }
+      }
+      return issues;
+    },
+  },
+  {
+    id: 'undocumented-language',
+    severity: 'low',
+    description: 'A major language of the repository is never mentioned',
+    check(ctx) {
+      const totalLines = ctx.index.languages.reduce((sum, l) => sum + l.lineCount, 0);
+      return ctx.index.languages
+        .filter(l => l.name !== 'Unknown' && totalLines > 0 && l.lineCount / totalLines >= LANGUAGE_SHARE_MIN)
+        .filter(l => !mentions(ctx.content, l.name))
+        .map(l => ({
+          key: l.name,
+          message: `${l.name} is never mentioned`,
+          evidence: `${l.fileCount} ${l.name} file(s), ${Math.round((l.lineCount / totalLines) * 100)}% of code lines`,
+          type: 'add' as const,
+        }));
+    },
+  },
+  {
+    id: 'undocumented-framework',
+    severity: 'low',
+    description: 'A detected framework is never mentioned',
+    check(ctx) {
+      return ctx.index.frameworks
+        .filter(f => !mentions(ctx.content, f) && !mentions(ctx.content, f.split('/').pop()!))
+        .map(f => ({
+          key: f,
+          message: `${f} is never mentioned`,
+          evidence: `${f} detected from the repository's manifests and files`,
+          type: 'add' as const,
+        }));
+    },
+  },
+];
+
+export interface LintOptions {
+  rules?: LintRule[];
+  only?: string[];          // Rule ids to run; all when empty
+  now?: Date;
+}
+
+/**
+ * Run the rules and return findings, most severe first, then by line.
+ */
+export async function lintDocument(ctx: LintContext, options: LintOptions = {}): Promise<LintFinding[]> {
+  const rules = (options.rules || DEFAULT_RULES)
+    .filter(r => !options.only?.length || options.only.includes(r.id));
+  const now = (options.now || new Date()).toISOString();
+  const headings = headingIndex(ctx.content);
+
+  const findings: LintFinding[] = [];
+  const seen = new Set<string>();
+  for (const rule of rules) {
+    for (const issue of await rule.check(ctx)) {
+      const id = `${rule.id}:${slugify(issue.key)}`;
+      if (seen.has(id)) continue;
+      seen.add(id);
+
+      const finding: LintFinding = {
+        id,
+        rule: rule.id,
+        severity: rule.severity,
+        section: issue.line ? headings(issue.line) : '(document)',
+        type: issue.type,
+        suggestion: issue.message,
+        evidence: issue.evidence,
+        status: 'open',
+        introducedAt: now,
+      };
+      if (issue.line) finding.line = issue.line;
+      findings.push(finding);
+    }
+  }
+
+  const order: Record<Severity, number> = { high: 0, medium: 1, low: 2 };
+  return findings.sort((a, b) => order[a.severity] - order[b.severity] || (a.line ?? 0) - (b.line ?? 0));
+}
+
+/**
+ * Whole-word, case-insensitive mention of a term.
+ */
+export function mentions(content: string, term: string): boolean {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<![\\w])${escaped}(?![\\w])`, 'i').test(content);
+}
+
+function* eachLine(content: string): Generator<{ text: string; line: number; inFence: boolean }> {
+  let inFence = false;
+  const lines = content.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    if (/^\s*(`{3,}|~{3,})/.test(lines[i])) {
+      inFence = !inFence;
+      continue;
+    }
+    yield { text: lines[i], line: i + 1, inFence };
+  }
+}
+
+/**
+ * Line number -> title of the nearest heading above it.
+ */
+function headingIndex(content: string): (line: number) => string {
+  const headings: Array<{ line: number; title: string }> = [];
+  for (const { text, line, inFence } of eachLine(content)) {
+    const match = !inFence && text.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+    if (match) headings.push({ line, title: match[1] });
+  }
+  return line => [...headings].reverse().find(h => h.line <= line)?.title ?? '(preamble)';
+}
+
+function resolveDocPath(docPath: string, target: string): string {
+  if (target.startsWith('/')) return posix.normalize(target.slice(1));
+  return posix.normalize(posix.join(posix.dirname(docPath), target)).replace(/\/$/, '');
+}
+
+async function exists(repoPath: string, path: string): Promise<boolean> {
+  if (path.startsWith('..')) return true;  // Outside the repo — can't judge
+  try {
+    await access(join(repoPath, path));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function sourcesFor(ctx: LintContext, runner: string): string {
+  const kind = RUNNER_KINDS[runner];
+  const sources = [...new Set(ctx.index.commands.filter(c => c.kind === kind).map(c => c.source))];
+  return sources.join(', ') || 'the repository';
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'item';
+}
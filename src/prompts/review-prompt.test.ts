@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { buildReviewPrompt } from './review-prompt.js';
+import { buildReviewPrompt, selectPriorFindings } from './review-prompt.js';
+import type { Finding } from '../state/state-manager.js';
+import type { DirectoryInfo } from '../analyzer/repo-indexer.js';
 
 describe('buildReviewPrompt', () => {
   it('should include the existing AGENTS.md content', () => {
@@ -38,3 +40,135 @@ describe('buildReviewPrompt', () => {
     expect(prompt).toContain('suggestions');
   });
 });
+
+describe('prior findings', () => {
+  const finding = (overrides: Partial<Finding>): Finding => ({
+    id: 'missing-test-cmd',
+    severity: 'medium',
+    section: 'Quick Start',
+    suggestion: 'Add test command',
+    evidence: 'package.json',
+    status: 'open',
+    introducedAt: '2026-02-01T00:00:00Z',
+    ...overrides,
+  });
+
+  const base = {
+    existingAgentsMd: 'doc',
+    changedFiles: [],
+    commitMessages: [],
+    repoName: 'test',
+    languages: ['TypeScript'],
+  };
+
+  it('should include rejected findings with their reason', () => {
+    const prompt = buildReviewPrompt({
+      ...base,
+      priorFindings: {
+        open: [finding({ id: 'open-one' })],
+        applied: [],
+        rejected: [finding({ id: 'use-yarn', suggestion: 'Switch to yarn', status: 'rejected', reason: 'we use pnpm' })],
+      },
+    });
+    expect(prompt).toContain('## Prior Findings');
+    expect(prompt).toContain('[use-yarn] Quick Start: Switch to yarn (reason: we use pnpm)');
+    expect(prompt).toContain('[open-one]');
+    expect(prompt).toContain('Never re-raise a rejected');
+  });
+
+  it('should omit the section when there are no prior findings', () => {
+    const prompt = buildReviewPrompt({ ...base, priorFindings: { open: [], applied: [], rejected: [] } });
+    expect(prompt).not.toContain('## Prior Findings');
+  });
+
+  it('should list key modules with their fan-in', () => {
+    const keyFiles = Array.from({ length: 12 }, (_, i) => ({ path: `src/mod${i}.ts`, fanIn: 12 - i }));
+    const prompt = buildReviewPrompt({ ...base, keyFiles });
+    expect(prompt).toContain('**Key modules (by import-graph centrality):**');
+    expect(prompt).toContain('- src/mod0.ts (imported by 12)');
+    expect(prompt).not.toContain('src/mod8.ts');
+  });
+
+  it('should outline the directory layout within its budget', () => {
+    const dir = (path: string, fileCount: number, children: DirectoryInfo[] = []): DirectoryInfo =>
+      ({ path, children, hasCode: true, fileCount, codeFileCount: fileCount, dominantLanguage: 'TypeScript' });
+    const layout = dir('.', 40, [dir('src', 30, [dir('src/commands', 12)]), dir('tests', 10)]);
+
+    const prompt = buildReviewPrompt({ ...base, layout });
+    expect(prompt).toContain('- src/ (30 files, TypeScript)\n  - commands/ (12 files, TypeScript)\n- tests/');
+
+    const wide = dir('.', 500, Array.from({ length: 100 }, (_, i) => dir(`module-${i}`, 5)));
+    const withLayout = buildReviewPrompt({ ...base, layout: wide });
+    expect(withLayout.length - buildReviewPrompt(base).length).toBeLessThanOrEqual(1000);
+    expect(withLayout).toMatch(/…and \d+ more directories/);
+  });
+
+  it('should list verified commands and flag unknown ones', () => {
+    const prompt = buildReviewPrompt({
+      ...base,
+      commands: [
+        { kind: 'npm-script', name: 'build', command: 'npm run build', source: 'package.json' },
+        { kind: 'npm-script', name: 'test', command: 'npm run test', source: 'package.json' },
+        { kind: 'make', name: 'docs', command: 'make docs', source: 'Makefile' },
+      ],
+      unknownCommands: [{ command: 'pnpm lint', line: 12, runner: 'pnpm', target: 'lint' }],
+    });
+
+    expect(prompt).toContain('- package.json: npm run build, npm run test\n- Makefile: make docs');
+    expect(prompt).toContain('- line 12: `pnpm lint` (no pnpm target "lint")');
+  });
+
+  it('should stay within the prompt budget with many findings', () => {
+    const many = Array.from({ length: 200 }, (_, i) =>
+      finding({ id: `finding-${i}`, suggestion: 'x'.repeat(300), status: 'rejected' }));
+    const withMemory = buildReviewPrompt({ ...base, priorFindings: { open: many, applied: many, rejected: many } });
+    const without = buildReviewPrompt(base);
+    expect(withMemory.length - without.length).toBeLessThanOrEqual(1300);
+    expect(withMemory).toContain('more');
+  });
+
+  it('should keep the whole prompt within budget for a large repo', () => {
+    const dir = (path: string, children: DirectoryInfo[] = []): DirectoryInfo =>
+      ({ path, children, hasCode: true, fileCount: 5, codeFileCount: 5, dominantLanguage: 'TypeScript' });
+    const agentsMd = '## Overview\n' + 'Long documentation. '.repeat(200);
+    const many = Array.from({ length: 200 }, (_, i) =>
+      finding({ id: `finding-${i}`, suggestion: 'x'.repeat(300), status: 'rejected' }));
+
+    const prompt = buildReviewPrompt({
+      ...base,
+      existingAgentsMd: agentsMd,
+      changedFiles: Array.from({ length: 300 }, (_, i) => `packages/module-${i}/src/${'nested/'.repeat(10)}file-${i}.ts`),
+      commitMessages: Array.from({ length: 100 }, (_, i) => `Commit ${i}: ${'y'.repeat(200)}`),
+      priorFindings: { open: many, applied: many, rejected: many },
+      keyFiles: Array.from({ length: 50 }, (_, i) => ({ path: `src/${'deep/'.repeat(20)}mod${i}.ts`, fanIn: 50 - i })),
+      layout: dir('.', Array.from({ length: 300 }, (_, i) => dir(`module-${i}`, [dir(`module-${i}/src`)]))),
+      commands: Array.from({ length: 200 }, (_, i) =>
+        ({ kind: 'make' as const, name: `target-${i}`, command: `make target-${i}`, source: `mk/part-${i}.mk` })),
+      unknownCommands: Array.from({ length: 50 }, (_, i) =>
+        ({ command: `make missing-${i}`, line: i + 1, runner: 'make', target: `missing-${i}` })),
+    });
+
+    expect(prompt).toContain(agentsMd);
+    expect(prompt).toContain('**Commands cited in AGENTS.md but not defined in the repo:**');
+    expect(prompt).toContain('**Rejected by maintainers (do NOT suggest again):**');
+    expect(prompt.length - agentsMd.length).toBeLessThanOrEqual(4000);
+  });
+});
+
+describe('selectPriorFindings', () => {
+  it('should split findings by status and drop old applied ones', () => {
+    const now = new Date('2026-03-01T00:00:00Z');
+    const findings: Finding[] = [
+      { id: 'a', severity: 'low', section: 's', suggestion: 'x', evidence: 'e', status: 'open', introducedAt: '' },
+      { id: 'b', severity: 'low', section: 's', suggestion: 'x', evidence: 'e', status: 'deferred', introducedAt: '' },
+      { id: 'c', severity: 'low', section: 's', suggestion: 'x', evidence: 'e', status: 'applied', introducedAt: '', resolvedAt: '2026-02-20T00:00:00Z' },
+      { id: 'd', severity: 'low', section: 's', suggestion: 'x', evidence: 'e', status: 'applied', introducedAt: '', resolvedAt: '2025-12-01T00:00:00Z' },
+      { id: 'e', severity: 'low', section: 's', suggestion: 'x', evidence: 'e', status: 'rejected', introducedAt: '' },
+      { id: 'f', severity: 'low', section: 's', suggestion: 'x', evidence: 'e', status: 'resolved', introducedAt: '' },
+    ];
+    const prior = selectPriorFindings(findings, now);
+    expect(prior.open.map(f => f.id)).toEqual(['a', 'b']);
+    expect(prior.applied.map(f => f.id)).toEqual(['c']);
+    expect(prior.rejected.map(f => f.id)).toEqual(['e']);
+  });
+});
@@ -1,33 +1,70 @@
+import type { Finding } from '../state/state-manager.js';
+import type { RankedFile } from '../analyzer/file-ranking.js';
+import type { DirectoryInfo } from '../analyzer/repo-indexer.js';
+import type { RepoCommand } from '../analyzer/command-extractor.js';
+import type { UnknownCommand } from '../analyzer/command-check.js';
+
 export interface ReviewPromptInput {
   existingAgentsMd: string;
   changedFiles: string[];
   commitMessages: string[];
   repoName: string;
   languages: string[];
+  priorFindings?: PriorFindings;
+  keyFiles?: Array<Pick<RankedFile, 'path' | 'fanIn'>>;  // Most central files, best first
+  layout?: DirectoryInfo;   // Actual directory tree, for checking layout sections
+  commands?: RepoCommand[];           // Commands the repo defines
+  unknownCommands?: UnknownCommand[]; // Commands AGENTS.md cites that the repo doesn't define
+}
+
+/**
+ * What earlier reviews already raised — the accretive memory.
+ */
+export interface PriorFindings {
+  open: Finding[];
+  applied: Finding[];
+  rejected: Finding[];
 }
 
+// Prompt text outside the AGENTS.md region (files are attached separately)
+const PROMPT_BUDGET = 4000;
+
+// Caps on the evidence lists, which are always included
+const CHANGED_FILES_BUDGET = 600;
+const COMMITS_BUDGET = 600;
+
+// Each context section's largest share of what PROMPT_BUDGET leaves after
+// the template and evidence; sections are filled most useful first
+const UNKNOWN_COMMANDS_BUDGET = 600;
+const MEMORY_BUDGET = 1200;
+const COMMANDS_BUDGET = 900;
+const KEY_FILES_BUDGET = 400;
+const LAYOUT_BUDGET = 900;
+
+const MEMORY_LINE_MAX = 140;
+const MORE_LINE_RESERVE = 24;  // Room for a trailing "…and N more" line
+
+// Central files listed so the reviewer knows where to look first
+const KEY_FILES_MAX = 8;
+
+// Applied findings older than this are no longer worth mentioning
+const RECENT_APPLIED_DAYS = 30;
+
 /**
  * Build the prompt that makes GPT a reviewer/critic, not a generator.
  *
  * Key constraints:
  * - Oracle has no --system flag in browser mode; system prompt is built-in.
  * - Oracle is one-shot; all context must be in the prompt.
- * - Keep under ~4000 chars of prompt text (files are attached separately via -f).
+ * - Keep under PROMPT_BUDGET chars of prompt text besides the AGENTS.md
+ *   region (files are attached separately via -f).
  */
 export function buildReviewPrompt(input: ReviewPromptInput): string {
-  const { existingAgentsMd, changedFiles, commitMessages, repoName, languages } = input;
+  const { existingAgentsMd, changedFiles, commitMessages, repoName, languages, priorFindings, keyFiles, layout, commands, unknownCommands } = input;
 
-  const evidenceSection = changedFiles.length > 0
-    ? `## Evidence: Recent Changes
+  const evidenceSection = buildEvidenceSection(changedFiles, commitMessages);
 
-**Changed files (${changedFiles.length}):**
-${changedFiles.slice(0, 30).map(f => `- ${f}`).join('\n')}
-
-**Recent commits:**
-${commitMessages.slice(0, 15).map(m => `- ${m}`).join('\n')}`
-    : '## Evidence: No recent changes (first review)';
-
-  return `You are reviewing AGENTS.md documentation for the ${languages.join('/')} project "${repoName}".
+  const render = (context: string): string => `You are reviewing AGENTS.md documentation for the ${languages.join('/')} project "${repoName}".
 
 Your role: CRITIC. Review the existing documentation for accuracy, completeness, and usefulness to AI coding agents. Do NOT rewrite the document. Suggest specific, targeted improvements.
 
@@ -36,7 +73,7 @@ Your role: CRITIC. Review the existing documentation for accuracy, completeness,
 ${existingAgentsMd}
 
 ${evidenceSection}
-
+${context}
 ## Your Task
 
 Review the documentation against the attached source files. Return a JSON array of suggestions:
@@ -50,7 +87,9 @@ Review the documentation against the attached source files. Return a JSON array
       "section": "which section this affects",
       "type": "add|correct|flag-stale",
       "suggestion": "what to change (be specific, include exact text)",
-      "evidence": "why — cite file paths or commit messages"
+      "evidence": "why — cite file paths or commit messages",
+      "target": "exact existing text this changes (correct/flag-stale only)",
+      "content": "exact markdown to insert or replace the target with"
     }
   ],
   "summary": "1-2 sentence overall assessment"
@@ -59,8 +98,187 @@ Review the documentation against the attached source files. Return a JSON array
 
 Rules:
 - Only suggest changes backed by evidence from the source files or git history
+- Commands in the docs must match the verified command list; flag any that don't
 - "add" = new content missing from docs. "correct" = existing content is wrong. "flag-stale" = content may be outdated.
-- For "add" suggestions, include the exact markdown to insert
+- For "add" suggestions, put the exact markdown to insert in "content"
+- For "correct" suggestions, quote the wrong text verbatim in "target" and the fix in "content"
+- Never re-raise a rejected or recently applied suggestion; reuse the id of an open finding that still applies
 - Limit to 10 most important suggestions
 - If documentation is accurate and complete, return an empty suggestions array`;
+
+  // The AGENTS.md region goes in whole; the context sections share what's left
+  let remaining = PROMPT_BUDGET - (render('').length - existingAgentsMd.length);
+  const fit = (cap: number, build: (budget: number) => string): string => {
+    const section = build(Math.min(cap, remaining));
+    remaining -= section.length;
+    return section;
+  };
+
+  const unknownSection = fit(UNKNOWN_COMMANDS_BUDGET, budget => buildUnknownCommandsSection(unknownCommands || [], budget));
+  const memorySection = priorFindings ? fit(MEMORY_BUDGET, budget => buildMemorySection(priorFindings, budget)) : '';
+  const commandsSection = commands ? fit(COMMANDS_BUDGET, budget => buildCommandsSection(commands, budget)) : '';
+  const keyFilesSection = keyFiles ? fit(KEY_FILES_BUDGET, budget => buildKeyFilesSection(keyFiles, budget)) : '';
+  const layoutSection = layout ? fit(LAYOUT_BUDGET, budget => buildLayoutSection(layout, budget)) : '';
+
+  return render(`${commandsSection}${unknownSection}${layoutSection}${keyFilesSection}${memorySection}`);
+}
+
+/**
+ * Split tracked findings into what the next prompt should remember.
+ */
+export function selectPriorFindings(findings: Finding[], now: Date = new Date()): PriorFindings {
+  const cutoff = now.getTime() - RECENT_APPLIED_DAYS * 24 * 60 * 60 * 1000;
+  return {
+    open: findings.filter(f => f.status === 'open' || f.status === 'deferred'),
+    applied: findings.filter(f =>
+      f.status === 'applied' && (!f.resolvedAt || new Date(f.resolvedAt).getTime() >= cutoff)),
+    rejected: findings.filter(f => f.status === 'rejected'),
+  };
+}
+
+/**
+ * What changed since the last review: the files and commit subjects.
+ */
+function buildEvidenceSection(changedFiles: string[], commitMessages: string[]): string {
+  if (changedFiles.length === 0) return '## Evidence: No recent changes (first review)';
+
+  const files = fitLines(changedFiles.slice(0, 30).map(f => truncate(`- ${f}`, MEMORY_LINE_MAX)), CHANGED_FILES_BUDGET,
+    hidden => `- …and ${hidden} more`);
+  const commits = fitLines(commitMessages.slice(0, 15).map(m => truncate(`- ${m}`, MEMORY_LINE_MAX)), COMMITS_BUDGET,
+    hidden => `- …and ${hidden} more`);
+
+  return `## Evidence: Recent Changes
+
+**Changed files (${changedFiles.length}):**
+${files.join('\n')}
+
+**Recent commits:**
+${commits.join('\n')}`;
+}
+
+/**
+ * Commands the repo really defines, grouped by the file that defines them.
+ */
+function buildCommandsSection(commands: RepoCommand[], budget: number): string {
+  const bySource = new Map<string, string[]>();
+  for (const c of commands) {
+    bySource.set(c.source, [...(bySource.get(c.source) || []), c.command]);
+  }
+
+  const header = '\n**Commands defined in the repo (verified):**\n';
+  const lines = fitLines([...bySource].map(([source, list]) => truncate(`- ${source}: ${list.join(', ')}`, MEMORY_LINE_MAX * 2)),
+    budget - header.length, hidden => `- …and ${hidden} more file(s)`);
+  return lines.length > 0 ? `${header}${lines.join('\n')}\n` : '';
+}
+
+/**
+ * Commands AGENTS.md cites that don't exist — the most common way agent
+ * docs go wrong, so this section is filled first.
+ */
+function buildUnknownCommandsSection(unknown: UnknownCommand[], budget: number): string {
+  const header = '\n**Commands cited in AGENTS.md but not defined in the repo:**\n';
+  const lines = fitLines(
+    unknown.slice(0, 10).map(u => truncate(`- line ${u.line}: \`${u.command}\` (no ${u.runner} target "${u.target}")`, MEMORY_LINE_MAX)),
+    budget - header.length, hidden => `- …and ${hidden} more`);
+  return lines.length > 0 ? `${header}${lines.join('\n')}\n` : '';
+}
+
+/**
+ * Compact outline of the real directory tree, in path order. Once the
+ * budget runs out the remaining directories are counted, not listed.
+ */
+function buildLayoutSection(root: DirectoryInfo, budget: number): string {
+  const all: string[] = [];
+  const visit = (dir: DirectoryInfo, level: number): void => {
+    for (const child of dir.children) {
+      const name = child.path.split('/').pop();
+      const language = child.dominantLanguage ? `, ${child.dominantLanguage}` : '';
+      all.push(`${'  '.repeat(level)}- ${name}/ (${child.fileCount} files${language})`);
+      visit(child, level + 1);
+    }
+  };
+  visit(root, 0);
+
+  const header = `\n**Actual project layout (${root.fileCount} files; check any layout section against it):**\n`;
+  const lines = fitLines(all, budget - header.length, hidden => `- …and ${hidden} more directories`);
+  return lines.length > 0 ? `${header}${lines.join('\n')}\n` : '';
+}
+
+/**
+ * The most-imported modules: documentation that misdescribes these
+ * misleads agents the most.
+ */
+function buildKeyFilesSection(keyFiles: Array<Pick<RankedFile, 'path' | 'fanIn'>>, budget: number): string {
+  const header = '\n**Key modules (by import-graph centrality):**\n';
+  const lines = fitLines(keyFiles.slice(0, KEY_FILES_MAX).map(f =>
+    truncate(f.fanIn > 0 ? `- ${f.path} (imported by ${f.fanIn})` : `- ${f.path}`, MEMORY_LINE_MAX)),
+    budget - header.length, hidden => `- …and ${hidden} more`);
+  return lines.length > 0 ? `${header}${lines.join('\n')}\n` : '';
+}
+
+/**
+ * Render prior findings within the budget. Rejections come first since
+ * repeating them is the most costly mistake.
+ */
+function buildMemorySection(prior: PriorFindings, budget: number): string {
+  const groups: Array<{ title: string; findings: Finding[]; withReason: boolean }> = [
+    { title: 'Rejected by maintainers (do NOT suggest again)', findings: prior.rejected, withReason: true },
+    { title: 'Open findings from earlier reviews', findings: prior.open, withReason: false },
+    { title: 'Recently applied (already in the docs)', findings: prior.applied, withReason: false },
+  ];
+
+  if (groups.every(g => g.findings.length === 0)) return '';
+
+  const lines: string[] = ['', '## Prior Findings'];
+  let used = lines.join('\n').length;
+
+  for (const group of groups) {
+    if (group.findings.length === 0) continue;
+
+    const header = `\n**${group.title}:**`;
+    if (used + header.length + 1 > budget - MORE_LINE_RESERVE) break;
+    lines.push(header);
+    used += header.length + 1;
+
+    let shown = 0;
+    for (const f of group.findings) {
+      const reason = group.withReason && f.reason ? ` (reason: ${f.reason})` : '';
+      const line = truncate(`- [${f.id}] ${f.section}: ${f.suggestion}${reason}`, MEMORY_LINE_MAX);
+      if (used + line.length + 1 > budget - MORE_LINE_RESERVE) break;
+      lines.push(line);
+      used += line.length + 1;
+      shown++;
+    }
+
+    const hidden = group.findings.length - shown;
+    if (hidden > 0) {
+      const more = `- …and ${hidden} more`;
+      lines.push(more);
+      used += more.length + 1;
+    }
+  }
+
+  if (lines.length === 2) return '';
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * As many lines as fit in the budget, then a count of the rest.
+ */
+function fitLines(lines: string[], budget: number, more: (hidden: number) => string): string[] {
+  const shown: string[] = [];
+  let used = 0;
+  for (const line of lines) {
+    if (used + line.length + 1 > budget - MORE_LINE_RESERVE) break;
+    shown.push(line);
+    used += line.length + 1;
+  }
+  const hidden = lines.length - shown.length;
+  if (hidden > 0 && shown.length > 0) shown.push(more(hidden));
+  return shown;
+}
+
+function truncate(text: string, max: number): string {
+  const flat = text.replace(/\s+/g, ' ');
+  return flat.length > max ? `${flat.substring(0, max - 1)}…` : flat;
 }
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { parseReviewResult, extractJson, formatParseReport } from './review-result.js';
+
+const VALID = {
+  suggestions: [
+    {
+      id: 'missing-test-cmd',
+      severity: 'high',
+      section: 'Quick Start',
+      type: 'add',
+      suggestion: 'Add test command',
+      evidence: 'package.json has test:run',
+      content: 'Run `npm run test:run`.',
+    },
+  ],
+  summary: 'Mostly accurate.',
+};
+
+describe('extractJson', () => {
+  it('should parse a bare JSON answer', () => {
+    expect(extractJson(JSON.stringify(VALID))).toEqual(VALID);
+  });
+
+  it('should extract JSON from a fenced block', () => {
+    const raw = `Here is my review:\n\n\`\`\`json\n${JSON.stringify(VALID, null, 2)}\n\`\`\`\n\nHope this helps.`;
+    expect(extractJson(raw)).toEqual(VALID);
+  });
+
+  it('should extract a balanced object from prose', () => {
+    const raw = `My assessment follows. ${JSON.stringify(VALID)} Let me know if {you} want more.`;
+    expect(extractJson(raw)).toEqual(VALID);
+  });
+
+  it('should repair trailing commas', () => {
+    const repairs: string[] = [];
+    const parsed = extractJson('{"suggestions": [], "summary": "ok",}', repairs);
+    expect(parsed).toEqual({ suggestions: [], summary: 'ok' });
+    expect(repairs).toContain('Removed trailing commas from JSON');
+  });
+
+  it('should return undefined when there is no JSON', () => {
+    expect(extractJson('The docs look fine to me.')).toBeUndefined();
+  });
+});
+
+describe('parseReviewResult', () => {
+  it('should accept a valid review', () => {
+    const parsed = parseReviewResult(JSON.stringify(VALID));
+    expect(parsed.ok).toBe(true);
+    expect(parsed.result).toEqual(VALID);
+    expect(parsed.rejected).toEqual([]);
+  });
+
+  it('should fail when no JSON is present', () => {
+    const parsed = parseReviewResult('I could not review this.');
+    expect(parsed.ok).toBe(false);
+    expect(parsed.error).toContain('No JSON');
+  });
+
+  it('should reject suggestions with missing fields and say why', () => {
+    const parsed = parseReviewResult(JSON.stringify({
+      suggestions: [
+        { id: 'no-evidence', severity: 'low', section: 'Setup', type: 'add', suggestion: 'x' },
+        { id: 'bad-type', severity: 'low', section: 'Setup', type: 'rewrite', suggestion: 'x', evidence: 'y' },
+      ],
+      summary: '',
+    }));
+    expect(parsed.ok).toBe(true);
+    expect(parsed.result.suggestions).toHaveLength(0);
+    expect(parsed.rejected).toEqual([
+      { index: 0, id: 'no-evidence', reasons: ['missing "evidence"'] },
+      { index: 1, id: 'bad-type', reasons: ['invalid type "rewrite"'] },
+    ]);
+  });
+
+  it('should normalize severity, type and id', () => {
+    const parsed = parseReviewResult(JSON.stringify({
+      suggestions: [
+        { id: 'Stale Node Version', severity: 'High', section: 'Setup', type: 'stale', suggestion: 'x', evidence: 'y' },
+      ],
+    }));
+    const [s] = parsed.result.suggestions;
+    expect(s.id).toBe('stale-node-version');
+    expect(s.severity).toBe('high');
+    expect(s.type).toBe('flag-stale');
+    expect(parsed.repairs.length).toBeGreaterThan(0);
+  });
+
+  it('should reject duplicate ids', () => {
+    const item = VALID.suggestions[0];
+    const parsed = parseReviewResult(JSON.stringify({ suggestions: [item, item], summary: '' }));
+    expect(parsed.result.suggestions).toHaveLength(1);
+    expect(parsed.rejected[0].reasons[0]).toContain('duplicate');
+  });
+
+  it('should treat a bare array as the suggestions list', () => {
+    const parsed = parseReviewResult(JSON.stringify(VALID.suggestions));
+    expect(parsed.ok).toBe(true);
+    expect(parsed.result.suggestions).toHaveLength(1);
+  });
+});
+
+describe('formatParseReport', () => {
+  it('should list rejected suggestions', () => {
+    const parsed = parseReviewResult(JSON.stringify({ suggestions: [{ id: 'x' }], summary: '' }));
+    expect(formatParseReport(parsed)).toContain('Rejected suggestion x');
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Review Result
+ *
+ * Typed schema for the JSON answer requested by buildReviewPrompt(),
+ * plus a tolerant parser that digs the JSON out of fenced or
+ * prose-wrapped answers and validates every suggestion.
+ */
+
+export type Severity = 'low' | 'medium' | 'high';
+export type SuggestionType = 'add' | 'correct' | 'flag-stale';
+
+export const SEVERITIES: Severity[] = ['low', 'medium', 'high'];
+export const SUGGESTION_TYPES: SuggestionType[] = ['add', 'correct', 'flag-stale'];
+
+export interface ReviewSuggestion {
+  id: string;
+  severity: Severity;
+  section: string;
+  type: SuggestionType;
+  suggestion: string;
+  evidence: string;
+  target?: string;   // Exact existing text (correct / flag-stale)
+  content?: string;  // Exact markdown to insert or replace with
+}
+
+export interface ReviewResult {
+  suggestions: ReviewSuggestion[];
+  summary: string;
+}
+
+export interface RejectedSuggestion {
+  index: number;
+  id?: string;
+  reasons: string[];
+}
+
+export interface ParsedReview {
+  ok: boolean;                     // false if no usable JSON was found
+  result: ReviewResult;
+  rejected: RejectedSuggestion[];
+  repairs: string[];               // Non-fatal fixes applied to the answer
+  error?: string;
+}
+
+// Loose spellings GPT sometimes uses for the suggestion type
+const TYPE_ALIASES: Record<string, SuggestionType> = {
+  'add': 'add',
+  'addition': 'add',
+  'correct': 'correct',
+  'correction': 'correct',
+  'fix': 'correct',
+  'flag-stale': 'flag-stale',
+  'flag_stale': 'flag-stale',
+  'stale': 'flag-stale',
+};
+
+const SEVERITY_ALIASES: Record<string, Severity> = {
+  'low': 'low',
+  'minor': 'low',
+  'medium': 'medium',
+  'moderate': 'medium',
+  'high': 'high',
+  'critical': 'high',
+  'major': 'high',
+};
+
+export function isSeverity(value: string): value is Severity {
+  return (SEVERITIES as string[]).includes(value);
+}
+
+/**
+ * Parse a raw model answer into a validated ReviewResult.
+ */
+export function parseReviewResult(raw: string): ParsedReview {
+  const repairs: string[] = [];
+  const empty: ReviewResult = { suggestions: [], summary: '' };
+
+  const json = extractJson(raw, repairs);
+  if (json === undefined) {
+    return { ok: false, result: empty, rejected: [], repairs, error: 'No JSON object found in review output' };
+  }
+
+  let suggestionsRaw: unknown;
+  let summary = '';
+
+  if (Array.isArray(json)) {
+    repairs.push('Answer was a bare array; treated it as the suggestions list');
+    suggestionsRaw = json;
+  } else if (isObject(json)) {
+    suggestionsRaw = json.suggestions;
+    if (typeof json.summary === 'string') {
+      summary = json.summary.trim();
+    } else if (json.summary !== undefined) {
+      repairs.push('Ignored non-string "summary"');
+    }
+  } else {
+    return { ok: false, result: empty, rejected: [], repairs, error: 'Review JSON is not an object' };
+  }
+
+  if (suggestionsRaw === undefined) {
+    repairs.push('Missing "suggestions"; treated as empty');
+    suggestionsRaw = [];
+  }
+  if (!Array.isArray(suggestionsRaw)) {
+    return { ok: false, result: { ...empty, summary }, rejected: [], repairs, error: '"suggestions" is not an array' };
+  }
+
+  const suggestions: ReviewSuggestion[] = [];
+  const rejected: RejectedSuggestion[] = [];
+  const seenIds = new Set<string>();
+
+  suggestionsRaw.forEach((item, index) => {
+    const validated = validateSuggestion(item, index, repairs);
+    if ('reasons' in validated) {
+      rejected.push(validated);
+      return;
+    }
+    if (seenIds.has(validated.id)) {
+      rejected.push({ index, id: validated.id, reasons: [`duplicate id "${validated.id}"`] });
+      return;
+    }
+    seenIds.add(validated.id);
+    suggestions.push(validated);
+  });
+
+  return { ok: true, result: { suggestions, summary }, rejected, repairs };
+}
+
+/**
+ * Validate one suggestion, normalizing what can be safely normalized.
+ */
+function validateSuggestion(
+  item: unknown,
+  index: number,
+  repairs: string[]
+): ReviewSuggestion | RejectedSuggestion {
+  if (!isObject(item)) {
+    return { index, reasons: ['not an object'] };
+  }
+
+  const reasons: string[] = [];
+  const label = typeof item.id === 'string' && item.id.trim() ? item.id.trim() : `#${index + 1}`;
+
+  // id — normalize to kebab-case, generate if missing
+  let id = typeof item.id === 'string' ? toKebab(item.id) : '';
+  if (!id) {
+    id = `suggestion-${index + 1}`;
+    repairs.push(`Suggestion #${index + 1}: generated missing id "${id}"`);
+  } else if (id !== item.id) {
+    repairs.push(`Suggestion ${label}: normalized id to "${id}"`);
+  }
+
+  // severity
+  const severityRaw = typeof item.severity === 'string' ? item.severity.trim().toLowerCase() : '';
+  const severity = SEVERITY_ALIASES[severityRaw];
+  if (!severity) {
+    reasons.push(`invalid severity ${JSON.stringify(item.severity)}`);
+  } else if (severity !== item.severity) {
+    repairs.push(`Suggestion ${label}: normalized severity to "${severity}"`);
+  }
+
+  // type
+  const typeRaw = typeof item.type === 'string' ? item.type.trim().toLowerCase() : '';
+  const type = TYPE_ALIASES[typeRaw];
+  if (!type) {
+    reasons.push(`invalid type ${JSON.stringify(item.type)}`);
+  } else if (type !== item.type) {
+    repairs.push(`Suggestion ${label}: normalized type to "${type}"`);
+  }
+
+  // Required text fields
+  const section = requireText(item, 'section', reasons);
+  const suggestion = requireText(item, 'suggestion', reasons);
+  const evidence = requireText(item, 'evidence', reasons);
+
+  // Optional text fields
+  const target = optionalText(item, 'target', label, repairs);
+  const content = optionalText(item, 'content', label, repairs);
+
+  if (reasons.length > 0 || !severity || !type) {
+    return { index, id, reasons };
+  }
+
+  const result: ReviewSuggestion = { id, severity, section, type, suggestion, evidence };
+  if (target !== undefined) result.target = target;
+  if (content !== undefined) result.content = content;
+  return result;
+}
+
+function requireText(item: Record<string, unknown>, field: string, reasons: string[]): string {
+  const value = item[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    reasons.push(`missing "${field}"`);
+    return '';
+  }
+  return value.trim();
+}
+
+function optionalText(
+  item: Record<string, unknown>,
+  field: string,
+  label: string,
+  repairs: string[]
+): string | undefined {
+  const value = item[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') {
+    repairs.push(`Suggestion ${label}: dropped non-string "${field}"`);
+    return undefined;
+  }
+  return value.trim() ? value : undefined;
+}
+
+/**
+ * Find the JSON payload in a model answer.
+ * Tries, in order: the whole answer, fenced code blocks, then the first
+ * balanced {...} span embedded in prose.
+ */
+export function extractJson(raw: string, repairs: string[] = []): unknown {
+  const candidates: string[] = [raw.trim()];
+
+  const fencePattern = /```[a-zA-Z]*\s*\n([\s\S]*?)```/g;
+  let match;
+  while ((match = fencePattern.exec(raw)) !== null) {
+    candidates.push(match[1].trim());
+  }
+
+  const span = findBalancedObject(raw);
+  if (span) candidates.push(span);
+
+  for (const [i, candidate] of candidates.entries()) {
+    if (!candidate) continue;
+    const parsed = tryParse(candidate);
+    if (parsed !== undefined) {
+      if (i > 0) repairs.push('Extracted JSON from surrounding text');
+      return parsed;
+    }
+
+    // Repair: trailing commas are the most common breakage
+    const repaired = tryParse(candidate.replace(/,(\s*[}\]])/g, '$1'));
+    if (repaired !== undefined) {
+      repairs.push('Removed trailing commas from JSON');
+      if (i > 0) repairs.push('Extracted JSON from surrounding text');
+      return repaired;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Return the first balanced {...} span, respecting string literals.
+ */
+function findBalancedObject(text: string): string | null {
+  const start = text.indexOf('{');
+  if (start === -1) return null;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') depth++;
+    else if (ch === '}') {
+      depth--;
+      if (depth === 0) return text.substring(start, i + 1);
+    }
+  }
+
+  return null;
+}
+
+function tryParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toKebab(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Format parse problems for display
+ */
+export function formatParseReport(parsed: ParsedReview): string {
+  const lines: string[] = [];
+
+  if (parsed.error) {
+    lines.push(`✗ ${parsed.error}`);
+  }
+
+  for (const rejected of parsed.rejected) {
+    lines.push(`⚠ Rejected suggestion ${rejected.id ?? `#${rejected.index + 1}`}: ${rejected.reasons.join(', ')}`);
+  }
+
+  for (const repair of parsed.repairs) {
+    lines.push(`· ${repair}`);
+  }
+
+  return lines.join('\n');
+}
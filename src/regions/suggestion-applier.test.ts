@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { applySuggestion, applySuggestions, selectSuggestions } from './suggestion-applier.js';
+import type { ReviewSuggestion } from '../prompts/review-result.js';
+
+const REGION = `## GPT Insights (maintained by Auracoil)
+
+### Quick Start
+
+Run \`npm install\`.
+
+### Gotchas
+
+Use ESM imports.`;
+
+function suggestion(overrides: Partial<ReviewSuggestion>): ReviewSuggestion {
+  return {
+    id: 'test-id',
+    severity: 'medium',
+    section: 'Quick Start',
+    type: 'add',
+    suggestion: 'Add test command',
+    evidence: 'package.json',
+    ...overrides,
+  };
+}
+
+describe('selectSuggestions', () => {
+  const all = [
+    suggestion({ id: 'a', severity: 'low' }),
+    suggestion({ id: 'b', severity: 'medium' }),
+    suggestion({ id: 'c', severity: 'high' }),
+  ];
+
+  it('should select by id', () => {
+    expect(selectSuggestions(all, { ids: ['a', 'c'] }).map(s => s.id)).toEqual(['a', 'c']);
+  });
+
+  it('should select by minimum severity', () => {
+    expect(selectSuggestions(all, { minSeverity: 'medium' }).map(s => s.id)).toEqual(['b', 'c']);
+    expect(selectSuggestions(all, { minSeverity: 'high' }).map(s => s.id)).toEqual(['c']);
+  });
+
+  it('should select everything with an empty selection', () => {
+    expect(selectSuggestions(all, {})).toHaveLength(3);
+  });
+});
+
+describe('applySuggestion', () => {
+  it('should append "add" content to the matching section', () => {
+    const result = applySuggestion(REGION, suggestion({ content: 'Run `npm test`.' }));
+    expect(result.applied).toBe(true);
+    expect(result.region).toMatch(/Run `npm install`\.\n\nRun `npm test`\.\n\n### Gotchas/);
+  });
+
+  it('should create a missing section for "add"', () => {
+    const result = applySuggestion(REGION, suggestion({ section: 'Testing', content: 'Use vitest.' }));
+    expect(result.region).toMatch(/### Testing\n\nUse vitest\.$/);
+  });
+
+  it('should skip "add" content that is already present', () => {
+    const result = applySuggestion(REGION, suggestion({ content: 'Use ESM imports.' }));
+    expect(result.applied).toBe(false);
+    expect(result.reason).toContain('already');
+  });
+
+  it('should replace target text for "correct"', () => {
+    const result = applySuggestion(REGION, suggestion({
+      type: 'correct',
+      target: 'npm install',
+      content: 'pnpm install',
+    }));
+    expect(result.applied).toBe(true);
+    expect(result.region).toContain('Run `pnpm install`.');
+  });
+
+  it('should insert "correct" content with dollar signs literally', () => {
+    const result = applySuggestion(REGION, suggestion({
+      type: 'correct',
+      target: 'npm install',
+      content: "npm install --prefix '$&' && echo $1 $$",
+    }));
+    expect(result.region).toContain("Run `npm install --prefix '$&' && echo $1 $$`.");
+  });
+
+  it('should skip "correct" when the target is missing', () => {
+    const result = applySuggestion(REGION, suggestion({ type: 'correct', target: 'yarn', content: 'pnpm' }));
+    expect(result.applied).toBe(false);
+    expect(result.reason).toContain('not found');
+  });
+
+  it('should annotate the target line for "flag-stale"', () => {
+    const result = applySuggestion(REGION, suggestion({
+      type: 'flag-stale',
+      target: 'ESM imports',
+      suggestion: 'CommonJS is also supported now',
+    }));
+    expect(result.region).toContain('Use ESM imports.\n> ⚠ Possibly stale: CommonJS is also supported now');
+  });
+
+  it('should annotate a multi-line target after its last line', () => {
+    const result = applySuggestion(REGION, suggestion({
+      type: 'flag-stale',
+      target: '### Gotchas\n\nUse ESM',
+      suggestion: 'CommonJS is also supported now',
+    }));
+    expect(result.applied).toBe(true);
+    expect(result.region).toContain('Use ESM imports.\n> ⚠ Possibly stale: CommonJS is also supported now');
+  });
+
+  it('should drop the first-review placeholder', () => {
+    const region = '## GPT Insights (maintained by Auracoil)\n\n_No reviews yet. Run `/auracoil` to get GPT 5.2 Pro\'s analysis._';
+    const result = applySuggestion(region, suggestion({ content: 'First insight.' }));
+    expect(result.region).not.toContain('No reviews yet');
+    expect(result.region).toContain('First insight.');
+  });
+});
+
+describe('applySuggestions', () => {
+  it('should report applied and skipped ids', () => {
+    const outcome = applySuggestions(REGION, [
+      suggestion({ id: 'ok', content: 'New line.' }),
+      suggestion({ id: 'bad', type: 'correct' }),
+    ]);
+    expect(outcome.applied).toEqual(['ok']);
+    expect(outcome.skipped.map(s => s.id)).toEqual(['bad']);
+  });
+});
+
+describe('apply status', () => {
+  it('should classify why a suggestion was skipped', () => {
+    expect(applySuggestion(REGION, suggestion({ content: 'Use ESM imports.' })).status).toBe('already-applied');
+    expect(applySuggestion(REGION, suggestion({ type: 'correct', target: 'yarn', content: 'pnpm' })).status).toBe('target-missing');
+    expect(applySuggestion(REGION, suggestion({ type: 'correct' })).status).toBe('needs-manual-edit');
+    expect(applySuggestion(REGION, suggestion({
+      type: 'correct',
+      target: 'npm install',
+      content: 'Use ESM',
+    })).status).toBe('applied');
+  });
+
+  it('should detect a correction that was already applied', () => {
+    const result = applySuggestion(REGION, suggestion({ type: 'correct', target: 'yarn install', content: 'npm install' }));
+    expect(result.status).toBe('already-applied');
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Suggestion Applier
+ *
+ * Applies individual review suggestions to the Auracoil region content.
+ * Application is deterministic: anything that cannot be located in the
+ * region is skipped with a reason instead of guessed at.
+ */
+
+import type { ReviewSuggestion, Severity } from '../prompts/review-result.js';
+
+export interface SuggestionSelection {
+  ids?: string[];
+  minSeverity?: Severity;
+}
+
+export type ApplyStatus = 'applied' | 'already-applied' | 'target-missing' | 'needs-manual-edit';
+
+export interface ApplyResult {
+  region: string;
+  applied: boolean;
+  status: ApplyStatus;
+  reason?: string;
+}
+
+export interface ApplyOutcome {
+  region: string;
+  applied: string[];
+  skipped: Array<{ id: string; status: ApplyStatus; reason: string }>;
+}
+
+const SEVERITY_RANK: Record<Severity, number> = { low: 0, medium: 1, high: 2 };
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+// Placeholder written by ensureRegion() before the first review is applied
+const PLACEHOLDER_PATTERN = /^_No reviews yet\..*_\s*$/m;
+
+/**
+ * Filter suggestions by explicit ids and/or minimum severity.
+ * An empty selection matches everything.
+ */
+export function selectSuggestions<T extends ReviewSuggestion>(suggestions: T[], selection: SuggestionSelection): T[] {
+  return suggestions.filter(s => {
+    if (selection.ids && selection.ids.length > 0 && !selection.ids.includes(s.id)) return false;
+    if (selection.minSeverity && SEVERITY_RANK[s.severity] < SEVERITY_RANK[selection.minSeverity]) return false;
+    return true;
+  });
+}
+
+/**
+ * Apply a list of suggestions in order, collecting what landed and what didn't.
+ */
+export function applySuggestions(region: string, suggestions: ReviewSuggestion[]): ApplyOutcome {
+  const outcome: ApplyOutcome = { region, applied: [], skipped: [] };
+
+  for (const suggestion of suggestions) {
+    const result = applySuggestion(outcome.region, suggestion);
+    if (result.applied) {
+      outcome.region = result.region;
+      outcome.applied.push(suggestion.id);
+    } else {
+      outcome.skipped.push({ id: suggestion.id, status: result.status, reason: result.reason || 'not applicable' });
+    }
+  }
+
+  return outcome;
+}
+
+/**
+ * Apply a single suggestion to the region content.
+ */
+export function applySuggestion(region: string, suggestion: ReviewSuggestion): ApplyResult {
+  const base = region.replace(PLACEHOLDER_PATTERN, '').trim();
+
+  switch (suggestion.type) {
+    case 'add':
+      return applyAdd(base, suggestion);
+    case 'correct':
+      return applyCorrect(base, suggestion);
+    case 'flag-stale':
+      return applyFlagStale(base, suggestion);
+    default:
+      return skip(region, 'needs-manual-edit', `unknown suggestion type "${suggestion.type}"`);
+  }
+}
+
+function applyAdd(region: string, suggestion: ReviewSuggestion): ApplyResult {
+  const content = (suggestion.content ?? suggestion.suggestion).trim();
+  if (!content) {
+    return skip(region, 'needs-manual-edit', 'no content to add');
+  }
+  if (region.includes(content)) {
+    return skip(region, 'already-applied', 'content already present');
+  }
+  return applied(appendToSection(region, suggestion.section, content));
+}
+
+function applyCorrect(region: string, suggestion: ReviewSuggestion): ApplyResult {
+  if (!suggestion.target) {
+    return skip(region, 'needs-manual-edit', 'no target text — needs a manual edit');
+  }
+  if (suggestion.content === undefined) {
+    return skip(region, 'needs-manual-edit', 'no replacement content — needs a manual edit');
+  }
+  if (!region.includes(suggestion.target)) {
+    return suggestion.content && region.includes(suggestion.content)
+      ? skip(region, 'already-applied', 'correction already applied')
+      : skip(region, 'target-missing', 'target text not found in region');
+  }
+  // Function replacement, so `$&` and friends in the content stay literal
+  const content = suggestion.content;
+  return applied(region.replace(suggestion.target, () => content));
+}
+
+function applyFlagStale(region: string, suggestion: ReviewSuggestion): ApplyResult {
+  const note = `> ⚠ Possibly stale: ${suggestion.suggestion.trim()}`;
+  if (region.includes(note)) {
+    return skip(region, 'already-applied', 'already flagged');
+  }
+
+  if (!suggestion.target) {
+    return applied(appendToSection(region, suggestion.section, note));
+  }
+
+  // The target may span lines; the note goes after the line it ends on
+  const start = region.indexOf(suggestion.target);
+  if (start === -1) {
+    return skip(region, 'target-missing', 'target text not found in region');
+  }
+  const end = start + suggestion.target.replace(/\n+$/, '').length;
+  const lines = region.split('\n');
+  const lineIdx = region.slice(0, end).split('\n').length - 1;
+  lines.splice(lineIdx + 1, 0, note);
+  return applied(lines.join('\n'));
+}
+
+function applied(region: string): ApplyResult {
+  return { region, applied: true, status: 'applied' };
+}
+
+function skip(region: string, status: ApplyStatus, reason: string): ApplyResult {
+  return { region, applied: false, status, reason };
+}
+
+/**
+ * Append content at the end of the named section, creating the section
+ * (one level below the region's top heading) if it doesn't exist.
+ */
+function appendToSection(region: string, section: string, content: string): string {
+  const lines = region.split('\n');
+  const wanted = section.trim().toLowerCase();
+
+  let start = -1;
+  let level = 0;
+  let topLevel = 0;
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(HEADING_PATTERN);
+    if (!match) continue;
+    if (!topLevel) topLevel = match[1].length;
+    if (match[2].trim().toLowerCase() === wanted) {
+      start = i;
+      level = match[1].length;
+      break;
+    }
+  }
+
+  if (start === -1) {
+    const headingLevel = Math.min(topLevel ? topLevel + 1 : 2, 6);
+    const heading = `${'#'.repeat(headingLevel)} ${section.trim()}`;
+    const prefix = region.trim() ? `${region.trimEnd()}\n\n` : '';
+    return `${prefix}${heading}\n\n${content}`;
+  }
+
+  // Section ends at the next heading of the same or higher level
+  let end = lines.length;
+  for (let i = start + 1; i < lines.length; i++) {
+    const match = lines[i].match(HEADING_PATTERN);
+    if (match && match[1].length <= level) {
+      end = i;
+      break;
+    }
+  }
+
+  // Insert before trailing blank lines of the section
+  let insertAt = end;
+  while (insertAt > start + 1 && lines[insertAt - 1].trim() === '') insertAt--;
+
+  const insertion = ['', content];
+  if (end < lines.length) insertion.push('');
+  lines.splice(insertAt, end - insertAt, ...insertion);
+  return lines.join('\n');
+}
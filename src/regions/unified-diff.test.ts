@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines, buildHunks, createUnifiedDiff } from './unified-diff.js';
+
+describe('diffLines', () => {
+  it('should mark added and removed lines', () => {
+    const lines = diffLines('a\nb\nc', 'a\nx\nc');
+    expect(lines).toEqual([
+      { kind: 'context', text: 'a' },
+      { kind: 'remove', text: 'b' },
+      { kind: 'add', text: 'x' },
+      { kind: 'context', text: 'c' },
+    ]);
+  });
+});
+
+describe('buildHunks', () => {
+  it('should split distant changes into separate hunks', () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i}`).join('\n');
+    const after = before.replace('line 1\n', 'line one\n').replace('line 18', 'line eighteen');
+    const hunks = buildHunks(diffLines(before, after), 2);
+    expect(hunks).toHaveLength(2);
+    expect(hunks[1].oldStart).toBe(17);
+  });
+});
+
+describe('createUnifiedDiff', () => {
+  it('should render a unified diff with headers', () => {
+    const diff = createUnifiedDiff('a\nb', 'a\nb\nc', { fromLabel: 'old', toLabel: 'new' });
+    expect(diff).toBe('--- old\n+++ new\n@@ -1,2 +1,3 @@\n a\n b\n+c');
+  });
+
+  it('should return empty string for identical input', () => {
+    expect(createUnifiedDiff('same', 'same')).toBe('');
+  });
+});
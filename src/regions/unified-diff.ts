@@ -0,0 +1,128 @@
+/**
+ * Unified Diff
+ *
+ * Minimal line-based unified diff (LCS) for previewing region changes.
+ * Regions are small, so the O(n*m) table is fine here.
+ */
+
+export interface DiffLine {
+  kind: 'context' | 'add' | 'remove';
+  text: string;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface UnifiedDiffOptions {
+  fromLabel?: string;
+  toLabel?: string;
+  context?: number;
+}
+
+/**
+ * Compute the line-level edit script between two texts.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ kind: 'context', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ kind: 'remove', text: a[i++] });
+    } else {
+      lines.push({ kind: 'add', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ kind: 'remove', text: a[i++] });
+  while (j < b.length) lines.push({ kind: 'add', text: b[j++] });
+
+  return lines;
+}
+
+/**
+ * Group an edit script into hunks with surrounding context lines.
+ */
+export function buildHunks(lines: DiffLine[], context: number = 3): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  const changed = lines
+    .map((l, idx) => (l.kind === 'context' ? -1 : idx))
+    .filter(idx => idx !== -1);
+
+  if (changed.length === 0) return hunks;
+
+  // Merge change indexes whose context windows overlap
+  const ranges: Array<[number, number]> = [];
+  for (const idx of changed) {
+    const start = Math.max(0, idx - context);
+    const end = Math.min(lines.length - 1, idx + context);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = end;
+    } else {
+      ranges.push([start, end]);
+    }
+  }
+
+  // Line numbers before each position in the script
+  let oldLine = 1;
+  let newLine = 1;
+  const positions = lines.map(l => {
+    const pos = { old: oldLine, new: newLine };
+    if (l.kind !== 'add') oldLine++;
+    if (l.kind !== 'remove') newLine++;
+    return pos;
+  });
+
+  for (const [start, end] of ranges) {
+    const slice = lines.slice(start, end + 1);
+    hunks.push({
+      oldStart: positions[start].old,
+      oldLines: slice.filter(l => l.kind !== 'add').length,
+      newStart: positions[start].new,
+      newLines: slice.filter(l => l.kind !== 'remove').length,
+      lines: slice,
+    });
+  }
+
+  return hunks;
+}
+
+/**
+ * Render a unified diff. Returns an empty string when texts are identical.
+ */
+export function createUnifiedDiff(before: string, after: string, options: UnifiedDiffOptions = {}): string {
+  const { fromLabel = 'a', toLabel = 'b', context = 3 } = options;
+  const hunks = buildHunks(diffLines(before, after), context);
+  if (hunks.length === 0) return '';
+
+  const out = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+  for (const hunk of hunks) {
+    out.push(`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`);
+    for (const line of hunk.lines) {
+      const prefix = line.kind === 'add' ? '+' : line.kind === 'remove' ? '-' : ' ';
+      out.push(`${prefix}${line.text}`);
+    }
+  }
+
+  return out.join('\n');
+}
@@ -0,0 +1,96 @@
+/**
+ * Secret Baseline
+ *
+ * Accepted secret-scan findings, saved to .auracoil/secrets-baseline.json
+ * so known false positives stop being redacted or excluded. Entries hold
+ * fingerprints (see fingerprintSecret), never the matched values, so the
+ * file is safe to commit. Sensitive files (.env, keys) can't be accepted:
+ * they are left out on save and ignored on load.
+ */
+
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { join, dirname } from 'path';
+import type { SecretIssue, SecretType } from './secret-scanner.js';
+
+export const BASELINE_PATH = join('.auracoil', 'secrets-baseline.json');
+
+export const BASELINE_VERSION = 1;
+
+export interface BaselineEntry {
+  fingerprint: string;
+  file: string;
+  type: SecretType;
+  line: number;         // Where it was when accepted; informational only
+}
+
+export interface SecretsBaseline {
+  version: number;
+  updated: string;      // ISO timestamp
+  secrets: BaselineEntry[];
+}
+
+/**
+ * The saved baseline, or null when missing, unreadable or from another version.
+ */
+export async function loadBaseline(repoPath: string): Promise<SecretsBaseline | null> {
+  try {
+    const data = JSON.parse(await readFile(join(repoPath, BASELINE_PATH), 'utf-8'));
+    if (data?.version !== BASELINE_VERSION || !Array.isArray(data.secrets)) return null;
+    const baseline = data as SecretsBaseline;
+    return { ...baseline, secrets: baseline.secrets.filter(isAcceptable) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fingerprints to pass as ScanOptions.baseline; empty without a baseline.
+ */
+export async function loadBaselineFingerprints(repoPath: string): Promise<Set<string>> {
+  const baseline = await loadBaseline(repoPath);
+  return new Set(baseline?.secrets.map(s => s.fingerprint) ?? []);
+}
+
+/**
+ * Replace the baseline with the given findings (or kept entries), sorted
+ * by file and line so the file diffs cleanly. Returns the absolute path written.
+ */
+export async function saveBaseline(repoPath: string, issues: BaselineEntry[], now: Date = new Date()): Promise<string> {
+  const seen = new Set<string>();
+  const secrets: BaselineEntry[] = [];
+  for (const issue of issues) {
+    if (!isAcceptable(issue) || seen.has(issue.fingerprint)) continue;
+    seen.add(issue.fingerprint);
+    secrets.push({ fingerprint: issue.fingerprint, file: issue.file, type: issue.type, line: issue.line });
+  }
+  secrets.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+
+  const baseline: SecretsBaseline = { version: BASELINE_VERSION, updated: now.toISOString(), secrets };
+  const path = join(repoPath, BASELINE_PATH);
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(baseline, null, 2) + '\n', 'utf-8');
+  return path;
+}
+
+/**
+ * Split findings into those already in the baseline and new ones.
+ */
+export function partitionByBaseline(
+  issues: SecretIssue[],
+  baseline: SecretsBaseline | null
+): { accepted: SecretIssue[]; fresh: SecretIssue[] } {
+  const known = new Set(baseline?.secrets.filter(isAcceptable).map(s => s.fingerprint) ?? []);
+  const isKnown = (issue: SecretIssue) => isAcceptable(issue) && known.has(issue.fingerprint);
+  return {
+    accepted: issues.filter(isKnown),
+    fresh: issues.filter(i => !isKnown(i)),
+  };
+}
+
+/**
+ * Whether a finding may be baselined. Accepting a sensitive file would
+ * attach it raw, so those always stay excluded.
+ */
+export function isAcceptable(entry: { type: SecretType }): boolean {
+  return entry.type !== 'sensitive_file';
+}
@@ -5,8 +5,10 @@
  * Defense in depth - prevents accidental credential exfiltration.
  */
 
-import { readFile } from 'fs/promises';
-import { join, basename } from 'path';
+import { readFile, writeFile, mkdir, mkdtemp, rm } from 'fs/promises';
+import { join, basename, dirname } from 'path';
+import { tmpdir } from 'os';
+import { createHash } from 'crypto';
 
 export interface SecretScanResult {
   safe: boolean;
@@ -17,7 +19,8 @@ export interface SecretIssue {
   file: string;
   line: number;
   type: SecretType;
-  snippet: string;  // Masked snippet showing context
+  snippet: string;      // Masked snippet showing context
+  fingerprint: string;  // Stable across line moves; see fingerprintSecret
 }
 
 export type SecretType =
@@ -27,8 +30,58 @@ export type SecretType =
   | 'password'
   | 'token'
   | 'connection_string'
+  | 'high_entropy'
   | 'sensitive_file';
 
+export interface EntropyOptions {
+  minLength: number;        // Shorter strings are never flagged
+  base64Threshold: number;  // Bits per char for base64-ish strings
+  hexThreshold: number;     // ...and for hex strings, whose alphabet is smaller
+}
+
+export interface ScanOptions {
+  entropy?: Partial<EntropyOptions> | false;  // false disables entropy detection
+  baseline?: ReadonlySet<string>;             // Fingerprints of accepted findings to skip
+}
+
+// Marks a line (or the line after it) as a known non-secret
+export const ALLOW_PRAGMA = 'auracoil:allow-secret';
+
+export const DEFAULT_ENTROPY: EntropyOptions = {
+  minLength: 20,
+  base64Threshold: 4.5,
+  hexThreshold: 3.0,
+};
+
+export interface Redaction {
+  line: number;
+  type: SecretType;
+}
+
+export interface RedactedFile {
+  file: string;             // Repo-relative path of the original
+  stagedPath: string;       // Absolute path of the sanitized copy
+  redactions: Redaction[];
+}
+
+export interface StagedFiles {
+  paths: string[];          // Absolute paths to attach, in input order
+  labels: Record<string, string>;  // Each path -> its repo-relative name, for the reviewer
+  redacted: RedactedFile[];
+  excluded: SecretIssue[];  // Sensitive files that are never sent, even redacted
+  stagingDir: string | null;
+  cleanup(): Promise<void>;
+}
+
+// A secret found in content; start/end bound the value to redact
+interface SecretMatch {
+  type: SecretType;
+  line: number;
+  start: number;
+  end: number;
+  fingerprint: string;
+}
+
 // Files that should NEVER be sent to Oracle
 const DANGEROUS_FILES = new Set([
   '.env',
@@ -67,9 +120,9 @@ const SECRET_PATTERNS: Array<{ pattern: RegExp; type: SecretType; description: s
     type: 'aws_credentials',
     description: 'AWS Secret Access Key',
   },
-  // Private keys
+  // Private keys (the whole block, or to end of file if it's truncated)
   {
-    pattern: /-----BEGIN (?:RSA |EC |DSA |OPENSSH )?PRIVATE KEY-----/g,
+    pattern: /-----BEGIN (?:RSA |EC |DSA |OPENSSH )?PRIVATE KEY-----(?:[\s\S]*?-----END (?:RSA |EC |DSA |OPENSSH )?PRIVATE KEY-----|[\s\S]*$)/g,
     type: 'private_key',
     description: 'Private key block',
   },
@@ -102,12 +155,58 @@ const SECRET_PATTERNS: Array<{ pattern: RegExp; type: SecretType; description: s
     type: 'token',
     description: 'Slack token',
   },
+  // GitLab tokens
+  {
+    pattern: /\bgl(?:pat|dt|rt|ptt|soat)-[a-zA-Z0-9_\-]{20,}/g,
+    type: 'token',
+    description: 'GitLab token',
+  },
+  // npm tokens
+  {
+    pattern: /\bnpm_[a-zA-Z0-9]{36}\b/g,
+    type: 'token',
+    description: 'npm access token',
+  },
+  // JSON Web Tokens
+  {
+    pattern: /\beyJ[a-zA-Z0-9_\-]{10,}\.eyJ[a-zA-Z0-9_\-]{10,}\.[a-zA-Z0-9_\-]{10,}/g,
+    type: 'token',
+    description: 'JSON Web Token',
+  },
+  // Stripe
+  {
+    pattern: /\b(?:sk|rk)_(?:live|test)_[a-zA-Z0-9]{24,}\b/g,
+    type: 'api_key',
+    description: 'Stripe secret key',
+  },
+  // Anthropic / OpenAI
+  {
+    pattern: /\bsk-ant-[a-zA-Z0-9_\-]{32,}/g,
+    type: 'api_key',
+    description: 'Anthropic API key',
+  },
+  {
+    pattern: /\bsk-(?!ant-)(?:proj-|svcacct-|admin-)?[a-zA-Z0-9_\-]{32,}/g,
+    type: 'api_key',
+    description: 'OpenAI API key',
+  },
+  // Google
+  {
+    pattern: /\bAIza[0-9A-Za-z_\-]{35}/g,
+    type: 'api_key',
+    description: 'Google API key',
+  },
   // Connection strings
   {
     pattern: /(?:mongodb|postgres|mysql|redis):\/\/[^\s'"]+:[^\s'"]+@[^\s'"]+/gi,
     type: 'connection_string',
     description: 'Database connection string with credentials',
   },
+  {
+    pattern: /\b(?:AccountKey|SharedAccessKey)=([a-zA-Z0-9+/]{20,}={0,2})/g,
+    type: 'connection_string',
+    description: 'Azure storage or Service Bus connection string',
+  },
   // Generic secrets
   {
     pattern: /(?:secret|private)\s*[:=]\s*['"]([^'"]{16,})['"]?/gi,
@@ -116,25 +215,41 @@ const SECRET_PATTERNS: Array<{ pattern: RegExp; type: SecretType; description: s
   },
 ];
 
+// Quoted strings, and unquoted values at the end of `KEY=value` / `key: value` lines
+const ENTROPY_CANDIDATE = /(['"`])([a-zA-Z0-9+/=_\-]+)\1|[=:][ \t]*([a-zA-Z0-9+/=_\-]+)[ \t]*$/gm;
+const HEX_STRING = /^[0-9a-fA-F]+$/;
+
+// Prose attached as-is (AGENTS.md, README): `#` and `*` lines are headings and bullets
+const DOC_FILE = /\.(?:md|mdx|markdown|rst|adoc)$/i;
+
+// Digests, not secrets: bare git SHAs / sha256 hex, SRI integrity values,
+// and anything assigned to a key that names a hash or commit
+const HASH_HEX_LENGTHS = new Set([40, 64]);
+const SRI_HASH = /^sha(?:1|256|384|512)-/;
+const HASH_KEY = /[\w-]*(?:sha\d*|hash|integrity|commit|checksum|digest|etag)[\w-]*['"`]?[ \t]*[:=][ \t]*['"`]?$/i;
+
 /**
  * Scan files for secrets before Oracle upload
  */
 export async function scanForSecrets(
   repoPath: string,
-  files: string[]
+  files: string[],
+  options: ScanOptions = {}
 ): Promise<SecretScanResult> {
   const issues: SecretIssue[] = [];
 
   for (const file of files) {
     const fileName = basename(file);
 
-    // Check if file name is dangerous
+    // Check if file name is dangerous; a baseline can't accept these
     if (isDangerousFile(file)) {
+      const fingerprint = fingerprintSecret(file, 'sensitive_file', '');
       issues.push({
         file,
         line: 0,
         type: 'sensitive_file',
         snippet: `File "${fileName}" should never be uploaded`,
+        fingerprint,
       });
       continue;
     }
@@ -142,7 +257,7 @@ export async function scanForSecrets(
     // Scan file content
     try {
       const content = await readFile(join(repoPath, file), 'utf-8');
-      const fileIssues = scanContent(file, content);
+      const fileIssues = scanContent(file, content, options);
       issues.push(...fileIssues);
     } catch {
       // Skip unreadable files
@@ -177,14 +292,36 @@ export function isDangerousFile(filePath: string): boolean {
 /**
  * Scan content for secret patterns
  */
-function scanContent(file: string, content: string): SecretIssue[] {
-  const issues: SecretIssue[] = [];
+function scanContent(file: string, content: string, options: ScanOptions): SecretIssue[] {
   const lines = content.split('\n');
+  return findSecrets(file, content, options).map(({ line, type, fingerprint }) => ({
+    file,
+    line,
+    type,
+    snippet: maskSecret((lines[line - 1] || '').trim()),
+    fingerprint,
+  }));
+}
 
-  // Skip if looks like example/template
-  if (isExampleFile(file, content)) {
-    return [];
-  }
+/**
+ * Locate secrets in content. The span covers the pattern's captured
+ * value when it has one (so `password = "..."` keeps its key), else the
+ * whole match. High-entropy strings no pattern caught come last.
+ */
+function findSecrets(file: string, content: string, options: ScanOptions = {}): SecretMatch[] {
+  // Docs are scanned like the prompt that quotes them. No file is skipped
+  // whole for looking like an example; placeholders are judged per match.
+  return findSecretsInText(file, content, options, !DOC_FILE.test(file));
+}
+
+/**
+ * Find secrets in a file or in free text. A prompt or a doc's `#` and
+ * `*` lines are headings and bullets, not comments; only `codeComments`
+ * text gets the comment check.
+ */
+function findSecretsInText(file: string, content: string, options: ScanOptions, codeComments: boolean): SecretMatch[] {
+  const matches: SecretMatch[] = [];
+  const lines = content.split('\n');
 
   for (const { pattern, type } of SECRET_PATTERNS) {
     // Reset regex state
@@ -198,41 +335,202 @@ function scanContent(file: string, content: string): SecretIssue[] {
 
       // Skip if in comment (basic check)
       const line = lines[lineNum - 1] || '';
-      if (isInComment(line, match[0])) continue;
+      if (codeComments && isInComment(line, match[0])) continue;
 
-      // Skip if looks like placeholder
-      if (isPlaceholder(match[0])) continue;
+      // Skip if looks like placeholder (key blocks: judge the header only)
+      if (isPlaceholder(match[0].split('\n')[0])) continue;
 
-      issues.push({
-        file,
-        line: lineNum,
+      const value = match[1];
+      const start = value ? match.index + match[0].lastIndexOf(value) : match.index;
+      const secret = value ?? match[0];
+      matches.push({
         type,
-        snippet: maskSecret(line.trim()),
+        line: lineNum,
+        start,
+        end: start + secret.length,
+        fingerprint: fingerprintSecret(file, type, secret),
       });
     }
   }
 
-  return issues;
+  if (options.entropy !== false) {
+    const entropy = { ...DEFAULT_ENTROPY, ...options.entropy };
+    for (const match of content.matchAll(ENTROPY_CANDIDATE)) {
+      const value = match[2] ?? match[3];
+      if (!isHighEntropy(value, entropy)) continue;
+
+      const start = match.index! + match[0].lastIndexOf(value);
+      const end = start + value.length;
+      if (matches.some(m => start < m.end && m.start < end)) continue;
+
+      const lineNum = content.substring(0, start).split('\n').length;
+      if (codeComments && isInComment(lines[lineNum - 1] || '', value)) continue;
+      if (isPlaceholder(value)) continue;
+      if (isHashValue(value, content.substring(content.lastIndexOf('\n', start - 1) + 1, start))) continue;
+
+      matches.push({ type: 'high_entropy', line: lineNum, start, end, fingerprint: fingerprintSecret(file, 'high_entropy', value) });
+    }
+  }
+
+  return matches.filter(m => !isAllowed(lines, m.line) && !options.baseline?.has(m.fingerprint));
 }
 
 /**
- * Check if file is an example/template that shouldn't trigger warnings
+ * Identify a finding without storing the secret: a hash of the file,
+ * type and matched value. Line numbers are left out so unrelated edits
+ * don't invalidate a baseline.
  */
-function isExampleFile(file: string, content: string): boolean {
-  const lowerFile = file.toLowerCase();
+export function fingerprintSecret(file: string, type: SecretType, value: string): string {
+  return createHash('sha256').update(`${file}\0${type}\0${value}`).digest('hex');
+}
 
-  // Example file names
-  if (lowerFile.includes('.example')) return true;
-  if (lowerFile.includes('.template')) return true;
-  if (lowerFile.includes('.sample')) return true;
-  if (lowerFile.endsWith('.md')) return true;  // Documentation
+function isAllowed(lines: string[], lineNum: number): boolean {
+  return (lines[lineNum - 1] || '').includes(ALLOW_PRAGMA) || (lines[lineNum - 2] || '').includes(ALLOW_PRAGMA);
+}
 
-  // Check content for example indicators
-  if (content.includes('your-api-key-here')) return true;
-  if (content.includes('YOUR_API_KEY')) return true;
-  if (content.includes('xxx')) return true;
+/**
+ * Shannon entropy in bits per character.
+ */
+export function shannonEntropy(value: string): number {
+  if (value.length === 0) return 0;
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
 
-  return false;
+/**
+ * Whether a high-entropy string is a digest rather than a credential,
+ * judged by its shape and the text before it on the line.
+ */
+function isHashValue(value: string, linePrefix: string): boolean {
+  if (HEX_STRING.test(value) && HASH_HEX_LENGTHS.has(value.length)) return true;
+  if (SRI_HASH.test(value)) return true;
+  return HASH_KEY.test(linePrefix);
+}
+
+/**
+ * Whether a string looks random enough to be a key. Hex strings get
+ * their own, lower threshold: 16 symbols can't reach base64's 4.5 bits.
+ */
+export function isHighEntropy(value: string, options: EntropyOptions = DEFAULT_ENTROPY): boolean {
+  if (value.length < options.minLength) return false;
+  const threshold = HEX_STRING.test(value) ? options.hexThreshold : options.base64Threshold;
+  return shannonEntropy(value) >= threshold;
+}
+
+/**
+ * Replace every secret the scanner would flag with a typed placeholder
+ * such as `<REDACTED:aws_credentials>`. Overlapping matches (a GitHub
+ * token assigned to `token = ...`) collapse into one redaction.
+ */
+export function redactContent(
+  file: string,
+  content: string,
+  options: ScanOptions = {}
+): { content: string; redactions: Redaction[] } {
+  return applyRedactions(content, findSecrets(file, content, options));
+}
+
+/**
+ * Redact free text bound for the reviewer, such as the prompt. Unlike
+ * redactContent for code files, the comment heuristic doesn't apply;
+ * `label` stands in for the file name in fingerprints.
+ */
+export function redactText(
+  label: string,
+  text: string,
+  options: ScanOptions = {}
+): { content: string; redactions: Redaction[] } {
+  return applyRedactions(text, findSecretsInText(label, text, options, false));
+}
+
+function applyRedactions(content: string, matches: SecretMatch[]): { content: string; redactions: Redaction[] } {
+  const spans = [...matches].sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const merged: SecretMatch[] = [];
+  for (const span of spans) {
+    const last = merged[merged.length - 1];
+    if (last && span.start < last.end) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+
+  let redacted = '';
+  let cursor = 0;
+  for (const span of merged) {
+    redacted += content.slice(cursor, span.start) + `<REDACTED:${span.type}>`;
+    cursor = span.end;
+  }
+  redacted += content.slice(cursor);
+
+  return {
+    content: redacted,
+    redactions: merged.map(({ line, type }) => ({ line, type })),
+  };
+}
+
+/**
+ * Write redacted copies of files with content issues to a temp staging
+ * directory, so they can be attached in place of the originals. Files
+ * flagged by name (.env, keys) stay excluded. Call cleanup() once the
+ * reviewer is done with the copies.
+ */
+export async function stageRedactedFiles(
+  repoPath: string,
+  files: string[],
+  scan: SecretScanResult,
+  options: ScanOptions = {}
+): Promise<StagedFiles> {
+  const excluded = scan.issues.filter(i => i.type === 'sensitive_file');
+  const excludedFiles = new Set(excluded.map(i => i.file));
+  const flagged = new Set(scan.issues.filter(i => i.type !== 'sensitive_file').map(i => i.file));
+
+  const staged: StagedFiles = {
+    paths: [],
+    labels: {},
+    redacted: [],
+    excluded,
+    stagingDir: null,
+    cleanup: async () => {
+      if (staged.stagingDir) await rm(staged.stagingDir, { recursive: true, force: true });
+    },
+  };
+
+  for (const file of files) {
+    if (excludedFiles.has(file)) continue;
+    if (!flagged.has(file)) {
+      staged.paths.push(join(repoPath, file));
+      staged.labels[join(repoPath, file)] = file;
+      continue;
+    }
+
+    let content: string;
+    try {
+      content = await readFile(join(repoPath, file), 'utf-8');
+    } catch {
+      continue;  // Unreadable now; don't fall back to the original
+    }
+    const result = redactContent(file, content, options);
+
+    staged.stagingDir ??= await mkdtemp(join(tmpdir(), 'auracoil-staged-'));
+    const stagedPath = join(staged.stagingDir, file);
+    await mkdir(dirname(stagedPath), { recursive: true });
+    await writeFile(stagedPath, result.content);
+
+    staged.paths.push(stagedPath);
+    staged.labels[stagedPath] = file;
+    staged.redacted.push({ file, stagedPath, redactions: result.redactions });
+  }
+
+  return staged;
 }
 
 /**
@@ -302,7 +600,7 @@ export function formatScanResults(result: SecretScanResult): string {
     lines.push('');
   }
 
-  lines.push('These files will be excluded from Oracle upload.');
+  lines.push('Secrets will be redacted before upload; sensitive files are excluded.');
 
   return lines.join('\n');
 }
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { AuditStore, summarizeScan, type AuditRecord } from './audit-store.js';
+
+const RECORD: AuditRecord = {
+  id: 'review-20261018-120000-abc123',
+  createdAt: '2026-10-18T12:00:00.000Z',
+  dryRun: false,
+  commit: 'abc123',
+  reviewer: { name: 'http', model: 'qwen2.5-coder', endpoint: 'http://localhost:8080/v1' },
+  bundleHash: 'feedfacefeedface',
+  prompt: { hash: '0123456789abcdef', chars: 4200 },
+  files: [{ path: 'src/index.ts', hash: 'aaaaaaaaaaaaaaaa' }],
+  scan: { issues: 0, byType: {}, redactedFiles: 0, excludedFiles: [], promptRedactions: 0 },
+};
+
+describe('AuditStore', () => {
+  let tempDir: string;
+  let store: AuditStore;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'auracoil-audit-'));
+    store = new AuditStore(tempDir);
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true });
+  });
+
+  it('should save and load a record by id', async () => {
+    const path = await store.save(RECORD);
+
+    expect(path).toBe(join(tempDir, '.auracoil', 'audit', `${RECORD.id}.json`));
+    expect(await store.load(RECORD.id)).toEqual(RECORD);
+  });
+
+  it('should save the prompt text alongside when given', async () => {
+    await store.save({ ...RECORD, dryRun: true }, 'Review this AGENTS.md');
+
+    expect(await readFile(store.promptPathFor(RECORD.id), 'utf-8')).toBe('Review this AGENTS.md');
+  });
+
+  it('should return null for an unknown id', async () => {
+    expect(await store.load('review-missing')).toBeNull();
+  });
+});
+
+describe('summarizeScan', () => {
+  it('should count issues by type and report redaction totals', () => {
+    const issue = { file: 'src/a.ts', line: 1, snippet: '', fingerprint: 'f' };
+
+    const summary = summarizeScan(
+      [{ ...issue, type: 'token' }, { ...issue, type: 'token' }, { ...issue, file: '.env', type: 'sensitive_file' }],
+      [{ redactions: [{ line: 1, type: 'token' }, { line: 2, type: 'token' }] }],
+      ['.env'],
+      [{ line: 40, type: 'password' }]
+    );
+
+    expect(summary).toEqual({
+      issues: 3,
+      byType: { token: 2, sensitive_file: 1 },
+      redactedFiles: 1,
+      excludedFiles: ['.env'],
+      promptRedactions: 1,
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Audit Store
+ *
+ * One record per outbound review under .auracoil/audit/, written before
+ * anything is sent: which files went out (with content hashes), the
+ * prompt hash, what the secret scan found and which reviewer received
+ * it. Dry runs write the same record, flagged, plus the prompt text.
+ */
+
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { join } from 'path';
+import type { SecretIssue, SecretType, Redaction } from '../security/secret-scanner.js';
+
+export interface AuditFile {
+  path: string;           // Repo-relative
+  hash: string;           // AnalysisBundle.contentHashes entry for the original
+  redactions?: number;    // Secrets replaced in the copy that was sent
+  sentHash?: string;      // Hash of that redacted copy
+}
+
+export interface AuditScanSummary {
+  issues: number;
+  byType: Partial<Record<SecretType, number>>;
+  redactedFiles: number;
+  excludedFiles: string[];    // Never sent
+  promptRedactions: number;
+}
+
+export interface AuditRecord {
+  id: string;                 // Same id as the review it precedes
+  createdAt: string;
+  dryRun: boolean;
+  commit: string | null;
+  reviewer: {
+    name: string;
+    model: string;
+    endpoint?: string;        // http reviewer
+    command?: string;         // command reviewer
+  };
+  bundleHash: string;
+  prompt: {
+    hash: string;             // Of the text actually sent, after redaction
+    chars: number;
+  };
+  files: AuditFile[];
+  scan: AuditScanSummary;
+}
+
+export class AuditStore {
+  readonly auditDir: string;
+
+  constructor(repoRoot: string) {
+    this.auditDir = join(repoRoot, '.auracoil', 'audit');
+  }
+
+  /**
+   * Write the record, and the prompt text alongside it when given.
+   */
+  async save(record: AuditRecord, prompt?: string): Promise<string> {
+    await mkdir(this.auditDir, { recursive: true });
+    const path = this.pathFor(record.id);
+    await writeFile(path, JSON.stringify(record, null, 2) + '\n');
+    if (prompt !== undefined) {
+      await writeFile(this.promptPathFor(record.id), prompt);
+    }
+    return path;
+  }
+
+  async load(id: string): Promise<AuditRecord | null> {
+    try {
+      return JSON.parse(await readFile(this.pathFor(id), 'utf-8')) as AuditRecord;
+    } catch {
+      return null;
+    }
+  }
+
+  pathFor(id: string): string {
+    return join(this.auditDir, `${id}.json`);
+  }
+
+  promptPathFor(id: string): string {
+    return join(this.auditDir, `${id}.prompt.txt`);
+  }
+}
+
+/**
+ * Count scan issues by type, plus what redaction did with them.
+ */
+export function summarizeScan(
+  issues: SecretIssue[],
+  redacted: Array<{ redactions: Redaction[] }>,
+  excluded: string[],
+  promptRedactions: Redaction[]
+): AuditScanSummary {
+  const byType: Partial<Record<SecretType, number>> = {};
+  for (const issue of issues) {
+    byType[issue.type] = (byType[issue.type] ?? 0) + 1;
+  }
+  return {
+    issues: issues.length,
+    byType,
+    redactedFiles: redacted.length,
+    excludedFiles: excluded,
+    promptRedactions: promptRedactions.length,
+  };
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { summarizeHistory } from './review-history.js';
+import type { ReviewRecord } from './review-store.js';
+import type { Finding } from './state-manager.js';
+
+function record(id: string, high: number, extra: Partial<ReviewRecord> = {}): ReviewRecord {
+  return {
+    id,
+    file: `${id}.json`,
+    createdAt: `2026-02-0${id.slice(-1)}T10:00:00.000Z`,
+    commit: 'abc1234',
+    bundleHash: null,
+    reviewer: 'fixture',
+    model: 'fixture',
+    durationMs: 1000,
+    suggestionCount: high + 1,
+    severityCounts: { high, medium: 1, low: 0 },
+    rejectedCount: 0,
+    ...extra,
+  };
+}
+
+function finding(id: string, status: Finding['status'], reviewIds: string[]): Finding {
+  return {
+    id,
+    section: 's',
+    severity: 'high',
+    suggestion: id,
+    evidence: 'e',
+    status,
+    introducedAt: '2026-02-01T10:00:00.000Z',
+    reviewIds,
+  };
+}
+
+describe('summarizeHistory', () => {
+  it('should count applied and rejected findings per review, and each finding once in the totals', () => {
+    const summary = summarizeHistory(
+      [record('r1', 2), record('r2', 1)],
+      [
+        finding('a', 'applied', ['r1']),
+        finding('b', 'rejected', ['r1', 'r2']),
+        finding('c', 'open', ['r2']),
+      ]
+    );
+
+    expect(summary.entries.map(e => [e.applied, e.rejected])).toEqual([[1, 1], [0, 1]]);
+    expect(summary.totals).toMatchObject({ reviews: 2, suggestions: 5, findings: 3, applied: 1, rejected: 1 });
+  });
+
+  it('should count findings raised by several reviews once', () => {
+    const summary = summarizeHistory(
+      [record('r1', 2), record('r2', 2)],
+      [
+        finding('a', 'rejected', ['r1', 'r2']),
+        finding('b', 'open', ['r1', 'r2']),
+        finding('c', 'open', ['r1', 'r2']),
+        finding('d', 'applied', ['r0']),
+      ]
+    );
+
+    expect(summary.totals).toMatchObject({ suggestions: 6, findings: 3, rejected: 1, applied: 0 });
+  });
+
+  it('should report converging when high-severity suggestions drop', () => {
+    const summary = summarizeHistory(
+      [record('r1', 4), record('r2', 3), record('r3', 1), record('r4', 0)],
+      []
+    );
+
+    expect(summary.trend).toEqual({ direction: 'converging', earlierHigh: 3.5, recentHigh: 0.5, window: 2 });
+  });
+
+  it('should report diverging when high-severity suggestions grow', () => {
+    const summary = summarizeHistory([record('r1', 0), record('r2', 2)], []);
+    expect(summary.trend.direction).toBe('diverging');
+  });
+
+  it('should need at least two reviews for a trend', () => {
+    const summary = summarizeHistory([record('r1', 3)], []);
+    expect(summary.trend.direction).toBe('insufficient-data');
+  });
+
+  it('should ignore untimed legacy reviews in the average duration', () => {
+    const summary = summarizeHistory(
+      [record('r1', 0, { durationMs: 0, legacy: true }), record('r2', 0, { durationMs: 3000 })],
+      []
+    );
+    expect(summary.totals.avgDurationMs).toBe(3000);
+  });
+});
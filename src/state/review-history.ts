@@ -0,0 +1,105 @@
+/**
+ * Review History
+ *
+ * Joins the review manifest with tracked findings to show what each
+ * review produced and whether the docs are converging over time.
+ */
+
+import type { ReviewRecord } from './review-store.js';
+import type { Finding } from './state-manager.js';
+
+export interface HistoryEntry {
+  record: ReviewRecord;
+  applied: number;    // Findings raised by this review that were applied
+  rejected: number;   // Findings raised by this review that were rejected
+}
+
+export type TrendDirection = 'converging' | 'diverging' | 'steady' | 'insufficient-data';
+
+export interface HistoryTrend {
+  direction: TrendDirection;
+  earlierHigh: number;   // Avg high-severity suggestions per review, earlier window
+  recentHigh: number;    // Avg high-severity suggestions per review, recent window
+  window: number;        // Reviews per window
+}
+
+export interface HistorySummary {
+  entries: HistoryEntry[];
+  trend: HistoryTrend;
+  totals: {
+    reviews: number;
+    suggestions: number;
+    findings: number;     // Distinct findings those suggestions became
+    applied: number;
+    rejected: number;
+    avgDurationMs: number;
+  };
+}
+
+// Reviews compared on each side of the trend
+const DEFAULT_TREND_WINDOW = 3;
+
+/**
+ * Summarize reviews (oldest first) against the findings they raised.
+ */
+export function summarizeHistory(
+  records: ReviewRecord[],
+  findings: Finding[],
+  trendWindow: number = DEFAULT_TREND_WINDOW
+): HistorySummary {
+  const entries: HistoryEntry[] = records.map(record => {
+    const raised = findings.filter(f => f.reviewIds?.includes(record.id));
+    return {
+      record,
+      applied: raised.filter(f => f.status === 'applied').length,
+      rejected: raised.filter(f => f.status === 'rejected').length,
+    };
+  });
+
+  const timed = records.filter(r => r.durationMs > 0);
+  // A finding raised by several reviews counts once in the totals
+  const raisedAnywhere = findings.filter(f => f.reviewIds?.some(id => records.some(r => r.id === id)));
+
+  return {
+    entries,
+    trend: computeTrend(records, trendWindow),
+    totals: {
+      reviews: records.length,
+      suggestions: sum(records.map(r => r.suggestionCount)),
+      findings: raisedAnywhere.length,
+      applied: raisedAnywhere.filter(f => f.status === 'applied').length,
+      rejected: raisedAnywhere.filter(f => f.status === 'rejected').length,
+      avgDurationMs: timed.length > 0 ? Math.round(sum(timed.map(r => r.durationMs)) / timed.length) : 0,
+    },
+  };
+}
+
+/**
+ * Compare average high-severity suggestions in the most recent reviews
+ * with the reviews just before them. Fewer means the docs are converging.
+ */
+function computeTrend(records: ReviewRecord[], trendWindow: number): HistoryTrend {
+  const window = Math.min(trendWindow, Math.floor(records.length / 2));
+  if (window === 0) {
+    return { direction: 'insufficient-data', earlierHigh: 0, recentHigh: 0, window: 0 };
+  }
+
+  const recent = records.slice(-window);
+  const earlier = records.slice(-window * 2, -window);
+  const recentHigh = average(recent.map(r => r.severityCounts.high));
+  const earlierHigh = average(earlier.map(r => r.severityCounts.high));
+
+  let direction: TrendDirection = 'steady';
+  if (recentHigh < earlierHigh) direction = 'converging';
+  else if (recentHigh > earlierHigh) direction = 'diverging';
+
+  return { direction, earlierHigh, recentHigh, window };
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, v) => total + v, 0);
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? sum(values) / values.length : 0;
+}
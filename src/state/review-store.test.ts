@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile, readFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { ReviewStore, newReviewId } from './review-store.js';
+import type { ReviewResult } from '../prompts/review-result.js';
+
+const RESULT: ReviewResult = {
+  suggestions: [
+    { id: 'a', severity: 'high', section: 's', type: 'add', suggestion: 'x', evidence: 'e' },
+    { id: 'b', severity: 'low', section: 's', type: 'add', suggestion: 'y', evidence: 'e' },
+  ],
+  summary: 'ok',
+};
+
+const META = {
+  commit: 'abc123',
+  bundleHash: 'feedface',
+  reviewer: 'fixture',
+  model: 'fixture',
+  durationMs: 1200,
+  rejectedCount: 0,
+};
+
+describe('newReviewId', () => {
+  it('should combine a sortable timestamp and a short hash', () => {
+    expect(newReviewId(new Date('2026-02-05T22:15:30Z'))).toMatch(/^review-20260205-221530-[a-f0-9]{6}$/);
+  });
+
+  it('should not collide for the same timestamp', () => {
+    const now = new Date();
+    expect(newReviewId(now)).not.toBe(newReviewId(now));
+  });
+});
+
+describe('ReviewStore', () => {
+  let tempDir: string;
+  let store: ReviewStore;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'auracoil-test-'));
+    store = new ReviewStore(tempDir);
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true });
+  });
+
+  it('should save reviews without clobbering same-day reviews', async () => {
+    const now = new Date('2026-02-05T10:00:00Z');
+    const first = await store.save(RESULT, META, now);
+    const second = await store.save(RESULT, META, now);
+    expect(first.file).not.toBe(second.file);
+    expect(await store.list()).toHaveLength(2);
+  });
+
+  it('should record review metadata in the manifest', async () => {
+    const record = await store.save(RESULT, META);
+    const manifest = JSON.parse(await readFile(join(store.reviewDir, 'index.json'), 'utf-8'));
+    expect(manifest.reviews[0]).toMatchObject({
+      id: record.id,
+      commit: 'abc123',
+      bundleHash: 'feedface',
+      model: 'fixture',
+      durationMs: 1200,
+      suggestionCount: 2,
+      severityCounts: { low: 1, medium: 0, high: 1 },
+    });
+  });
+
+  it('should resolve latest, latest~N, ids and file names', async () => {
+    const older = await store.save(RESULT, META, new Date('2026-02-01T00:00:00Z'));
+    const newer = await store.save(RESULT, META, new Date('2026-02-02T00:00:00Z'));
+
+    expect((await store.resolve())?.id).toBe(newer.id);
+    expect((await store.resolve('latest'))?.id).toBe(newer.id);
+    expect((await store.resolve('latest~1'))?.id).toBe(older.id);
+    expect(await store.resolve('latest~2')).toBeNull();
+    expect((await store.resolve(older.id))?.id).toBe(older.id);
+    expect((await store.resolve(older.file))?.id).toBe(older.id);
+    expect(await store.resolve('nope')).toBeNull();
+  });
+
+  it('should list review files that predate the manifest', async () => {
+    await mkdir(store.reviewDir, { recursive: true });
+    await writeFile(join(store.reviewDir, 'review-2026-01-15.json'), JSON.stringify(RESULT));
+    const reviews = await store.list();
+    expect(reviews).toHaveLength(1);
+    expect(reviews[0]).toMatchObject({ id: 'review-2026-01-15', legacy: true, suggestionCount: 2 });
+    expect((await store.resolve('review-2026-01-15.json'))?.legacy).toBe(true);
+  });
+
+  it('should return null when there are no reviews', async () => {
+    expect(await store.resolve()).toBeNull();
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Review Store
+ *
+ * Saves reviews under .auracoil/reviews/ with unique ids and keeps a
+ * manifest (index.json) of what each review covered. Reviews can be
+ * referenced by id, file name, "latest" or "latest~N".
+ */
+
+import { readFile, writeFile, mkdir, readdir, stat } from 'fs/promises';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import { parseReviewResult, type ReviewResult, type Severity } from '../prompts/review-result.js';
+
+export interface ReviewRecord {
+  id: string;
+  file: string;                 // Relative to .auracoil/reviews/
+  createdAt: string;
+  commit: string | null;        // HEAD at review time
+  bundleHash: string | null;    // getBundleHash() of the attached bundle
+  reviewer: string;
+  model: string;
+  durationMs: number;
+  suggestionCount: number;
+  severityCounts: Record<Severity, number>;
+  rejectedCount: number;        // Suggestions dropped by validation
+  legacy?: boolean;             // Found on disk, not in the manifest
+}
+
+export type ReviewMetadata = Pick<ReviewRecord, 'commit' | 'bundleHash' | 'reviewer' | 'model' | 'durationMs' | 'rejectedCount'>;
+
+interface ReviewManifest {
+  version: 1;
+  reviews: ReviewRecord[];
+}
+
+export class ReviewStore {
+  readonly reviewDir: string;
+  private indexPath: string;
+
+  constructor(repoRoot: string) {
+    this.reviewDir = join(repoRoot, '.auracoil', 'reviews');
+    this.indexPath = join(this.reviewDir, 'index.json');
+  }
+
+  /**
+   * All known reviews, oldest first. Review files that predate the
+   * manifest are included as legacy records.
+   */
+  async list(): Promise<ReviewRecord[]> {
+    const manifest = await this.loadManifest();
+    const indexed = new Set(manifest.reviews.map(r => r.file));
+
+    let files: string[] = [];
+    try {
+      files = await readdir(this.reviewDir);
+    } catch {
+      return manifest.reviews;
+    }
+
+    const legacy: ReviewRecord[] = [];
+    for (const file of files) {
+      if (!file.startsWith('review-') || !file.endsWith('.json') || indexed.has(file)) continue;
+      legacy.push(await this.legacyRecord(file));
+    }
+
+    return [...manifest.reviews, ...legacy].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Resolve a review reference: undefined/"latest", "latest~N", an id or a file name.
+   */
+  async resolve(ref?: string): Promise<ReviewRecord | null> {
+    const reviews = await this.list();
+    if (reviews.length === 0) return null;
+
+    if (!ref || ref === 'latest') return reviews[reviews.length - 1];
+
+    const back = ref.match(/^latest~(\d+)$/);
+    if (back) {
+      return reviews[reviews.length - 1 - parseInt(back[1], 10)] ?? null;
+    }
+
+    return reviews.find(r => r.id === ref || r.file === ref) ?? null;
+  }
+
+  pathFor(record: ReviewRecord): string {
+    return join(this.reviewDir, record.file);
+  }
+
+  /**
+   * Save a validated review and record it in the manifest.
+   */
+  async save(
+    result: ReviewResult,
+    meta: ReviewMetadata,
+    now: Date = new Date(),
+    id: string = newReviewId(now)
+  ): Promise<ReviewRecord> {
+    const record: ReviewRecord = {
+      id,
+      file: `${id}.json`,
+      createdAt: now.toISOString(),
+      ...meta,
+      suggestionCount: result.suggestions.length,
+      severityCounts: countSeverities(result),
+    };
+
+    await mkdir(this.reviewDir, { recursive: true });
+    await writeFile(this.pathFor(record), JSON.stringify(result, null, 2));
+
+    const manifest = await this.loadManifest();
+    manifest.reviews.push(record);
+    await writeFile(this.indexPath, JSON.stringify(manifest, null, 2));
+
+    return record;
+  }
+
+  /**
+   * Keep an unparseable answer for inspection. Not added to the manifest.
+   */
+  async saveRaw(output: string, now: Date = new Date()): Promise<string> {
+    await mkdir(this.reviewDir, { recursive: true });
+    const path = join(this.reviewDir, `${newReviewId(now)}.raw.txt`);
+    await writeFile(path, output);
+    return path;
+  }
+
+  private async loadManifest(): Promise<ReviewManifest> {
+    try {
+      const manifest = JSON.parse(await readFile(this.indexPath, 'utf-8')) as ReviewManifest;
+      return { version: 1, reviews: Array.isArray(manifest.reviews) ? manifest.reviews : [] };
+    } catch {
+      return { version: 1, reviews: [] };
+    }
+  }
+
+  private async legacyRecord(file: string): Promise<ReviewRecord> {
+    const path = join(this.reviewDir, file);
+    let createdAt = new Date(0).toISOString();
+    let result: ReviewResult = { suggestions: [], summary: '' };
+
+    try {
+      createdAt = (await stat(path)).mtime.toISOString();
+      result = parseReviewResult(await readFile(path, 'utf-8')).result;
+    } catch {
+      // Unreadable — still listed so it can be referenced
+    }
+
+    return {
+      id: file.replace(/\.json$/, ''),
+      file,
+      createdAt,
+      commit: null,
+      bundleHash: null,
+      reviewer: 'unknown',
+      model: 'unknown',
+      durationMs: 0,
+      suggestionCount: result.suggestions.length,
+      severityCounts: countSeverities(result),
+      rejectedCount: 0,
+      legacy: true,
+    };
+  }
+}
+
+/**
+ * Timestamp plus a short random hash, e.g. review-20260205-221530-3fa9c1.
+ * Sorts chronologically and never collides within a second.
+ */
+export function newReviewId(now: Date = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace('T', '-').substring(0, 15);
+  return `review-${stamp}-${randomBytes(3).toString('hex')}`;
+}
+
+function countSeverities(result: ReviewResult): Record<Severity, number> {
+  const counts: Record<Severity, number> = { low: 0, medium: 0, high: 0 };
+  for (const s of result.suggestions) counts[s.severity]++;
+  return counts;
+}
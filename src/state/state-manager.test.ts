@@ -3,6 +3,7 @@ import { mkdtemp, rm } from 'fs/promises';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import { StateManager } from './state-manager.js';
+import type { ReviewSuggestion } from '../prompts/review-result.js';
 
 describe('StateManager', () => {
   let tempDir: string;
@@ -60,3 +61,107 @@ describe('StateManager', () => {
     expect(data.findings[0].status).toBe('resolved');
   });
 });
+
+describe('StateManager finding lifecycle', () => {
+  let tempDir: string;
+  let state: StateManager;
+
+  const suggestion = (overrides: Partial<ReviewSuggestion> = {}): ReviewSuggestion => ({
+    id: 'missing-test-cmd',
+    severity: 'medium',
+    section: 'Quick Start',
+    type: 'add',
+    suggestion: 'Add the test command npm run test:run to Quick Start',
+    evidence: 'package.json',
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'auracoil-test-'));
+    state = new StateManager(tempDir);
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true });
+  });
+
+  it('should turn new suggestions into open findings', async () => {
+    const sync = await state.syncFindings([suggestion()]);
+    expect(sync.added).toEqual(['missing-test-cmd']);
+    const data = await state.load();
+    expect(data.findings[0]).toMatchObject({ id: 'missing-test-cmd', status: 'open', timesSeen: 1 });
+  });
+
+  it('should match recurring suggestions with a different id', async () => {
+    await state.syncFindings([suggestion()]);
+    const sync = await state.syncFindings([suggestion({
+      id: 'add-test-command',
+      suggestion: 'Add the test command npm run test:run to the Quick Start section',
+    })]);
+    expect(sync.matched).toEqual(['missing-test-cmd']);
+    expect(sync.idMap['add-test-command']).toBe('missing-test-cmd');
+    const data = await state.load();
+    expect(data.findings).toHaveLength(1);
+    expect(data.findings[0].timesSeen).toBe(2);
+  });
+
+  it('should auto-resolve findings that are no longer raised', async () => {
+    await state.syncFindings([suggestion()]);
+    const sync = await state.syncFindings([]);
+    expect(sync.autoResolved).toEqual(['missing-test-cmd']);
+    const data = await state.load();
+    expect(data.findings[0].status).toBe('resolved');
+    expect(data.findings[0].reason).toContain('no longer raised');
+  });
+
+  it('should keep rejected findings rejected when raised again', async () => {
+    await state.syncFindings([suggestion()]);
+    await state.setFindingStatus('missing-test-cmd', 'rejected', 'we use make test');
+    await state.syncFindings([suggestion()]);
+    const data = await state.load();
+    expect(data.findings[0].status).toBe('rejected');
+    expect(data.findings[0].reason).toBe('we use make test');
+  });
+
+  it('should reopen applied findings that come back', async () => {
+    await state.syncFindings([suggestion()]);
+    await state.setFindingStatus('missing-test-cmd', 'applied');
+    const sync = await state.syncFindings([suggestion()]);
+    expect(sync.reopened).toEqual(['missing-test-cmd']);
+    const data = await state.load();
+    expect(data.findings[0].status).toBe('open');
+    expect(data.findings[0].resolvedAt).toBeUndefined();
+  });
+
+  it('should give a new suggestion whose id is already taken a fresh id', async () => {
+    await state.syncFindings([suggestion()]);
+    const sync = await state.syncFindings([
+      suggestion({ id: 'reworded' }),
+      suggestion({ section: 'Testing', suggestion: 'Document the vitest watch mode' }),
+    ]);
+    expect(sync.idMap['reworded']).toBe('missing-test-cmd');
+    expect(sync.added).toEqual(['missing-test-cmd-2']);
+  });
+
+  it('should not attach a different suggestion to a rejected finding with the same id', async () => {
+    await state.syncFindings([suggestion()]);
+    await state.setFindingStatus('missing-test-cmd', 'rejected', 'we use make test');
+    const sync = await state.syncFindings([
+      suggestion({ section: 'Architecture', suggestion: 'Describe how the plugin loader resolves modules' }),
+    ]);
+
+    expect(sync.added).toEqual(['missing-test-cmd-2']);
+    expect(sync.idMap['missing-test-cmd']).toBe('missing-test-cmd-2');
+    const data = await state.load();
+    expect(data.findings[0]).toMatchObject({
+      id: 'missing-test-cmd',
+      status: 'rejected',
+      reason: 'we use make test',
+      suggestion: 'Add the test command npm run test:run to Quick Start',
+    });
+  });
+
+  it('should report unknown ids when setting status', async () => {
+    expect(await state.setFindingStatus('nope', 'deferred')).toBe(false);
+  });
+});
@@ -1,17 +1,38 @@
 import { readFile, writeFile, mkdir } from 'fs/promises';
 import { join } from 'path';
+import type { ReviewSuggestion, Severity, SuggestionType } from '../prompts/review-result.js';
+
+export type FindingStatus = 'open' | 'resolved' | 'rejected' | 'deferred' | 'applied';
+
+export const FINDING_STATUSES: FindingStatus[] = ['open', 'resolved', 'rejected', 'deferred', 'applied'];
 
 export interface Finding {
   id: string;
-  severity: 'low' | 'medium' | 'high';
+  severity: Severity;
   section: string;
+  type?: SuggestionType;
   suggestion: string;
   evidence: string;
-  status: 'open' | 'resolved';
+  status: FindingStatus;
   introducedAt: string;
-  resolvedAt?: string;
+  lastSeenAt?: string;
+  timesSeen?: number;
+  reviewIds?: string[];  // Reviews that raised this finding
+  resolvedAt?: string;   // When the finding last left the open state
+  reason?: string;       // Why it was resolved/rejected/deferred/applied
 }
 
+export interface FindingSyncResult {
+  added: string[];
+  matched: string[];
+  reopened: string[];
+  autoResolved: string[];
+  idMap: Record<string, string>;  // suggestion id -> finding id
+}
+
+// Minimum token overlap for two suggestions in the same section to be the same finding
+const SIMILARITY_THRESHOLD = 0.6;
+
 export interface AuracoilState {
   lastReviewedCommit: string | null;
   lastReviewedAt: string | null;
@@ -26,6 +47,10 @@ const EMPTY_STATE: AuracoilState = {
   findings: [],
 };
 
+export function isFindingStatus(value: string): value is FindingStatus {
+  return (FINDING_STATUSES as string[]).includes(value);
+}
+
 export class StateManager {
   private statePath: string;
 
@@ -38,7 +63,7 @@ export class StateManager {
       const raw = await readFile(this.statePath, 'utf-8');
       return { ...EMPTY_STATE, ...JSON.parse(raw) };
     } catch {
-      return { ...EMPTY_STATE };
+      return { ...EMPTY_STATE, findings: [] };
     }
   }
 
@@ -60,14 +85,93 @@ export class StateManager {
     await this.save(current);
   }
 
-  async resolveFinding(id: string): Promise<void> {
+  async resolveFinding(id: string, reason?: string): Promise<boolean> {
+    return this.setFindingStatus(id, 'resolved', reason);
+  }
+
+  /**
+   * Move a finding to a new lifecycle state. Returns false if not found.
+   */
+  async setFindingStatus(id: string, status: FindingStatus, reason?: string): Promise<boolean> {
     const current = await this.load();
     const finding = current.findings.find(f => f.id === id);
-    if (finding) {
-      finding.status = 'resolved';
-      finding.resolvedAt = new Date().toISOString();
-      await this.save(current);
+    if (!finding) return false;
+    transition(finding, status, new Date().toISOString(), reason);
+    await this.save(current);
+    return true;
+  }
+
+  /**
+   * Reconcile a review's suggestions with tracked findings.
+   *
+   * - Suggestions matching an existing finding (same id, or same section
+   *   with near-identical text) update it instead of duplicating it.
+   * - Resolved/applied findings that come back are reopened; rejected and
+   *   deferred ones keep their status.
+   * - Open findings the review no longer raises are auto-resolved.
+   */
+  async syncFindings(suggestions: ReviewSuggestion[], reviewId?: string): Promise<FindingSyncResult> {
+    const current = await this.load();
+    const now = new Date().toISOString();
+    const result: FindingSyncResult = { added: [], matched: [], reopened: [], autoResolved: [], idMap: {} };
+    const seen = new Set<string>();
+
+    for (const suggestion of suggestions) {
+      // A reused id only counts when it's about the same thing; GPT recycles generic ids
+      const existing = current.findings.find(f => !seen.has(f.id) && f.id === suggestion.id && isSameTopic(f, suggestion)) ||
+        current.findings.find(f => !seen.has(f.id) && isSameFinding(f, suggestion));
+
+      if (!existing) {
+        const id = uniqueId(suggestion.id, current.findings);
+        current.findings.push({
+          id,
+          severity: suggestion.severity,
+          section: suggestion.section,
+          type: suggestion.type,
+          suggestion: suggestion.suggestion,
+          evidence: suggestion.evidence,
+          status: 'open',
+          introducedAt: now,
+          lastSeenAt: now,
+          timesSeen: 1,
+          ...(reviewId ? { reviewIds: [reviewId] } : {}),
+        });
+        seen.add(id);
+        result.added.push(id);
+        result.idMap[suggestion.id] = id;
+        continue;
+      }
+
+      seen.add(existing.id);
+      result.matched.push(existing.id);
+      result.idMap[suggestion.id] = existing.id;
+
+      // A rejection stands for what was rejected, so its wording is kept too
+      if (existing.status !== 'rejected') {
+        existing.severity = suggestion.severity;
+        existing.type = suggestion.type;
+        existing.suggestion = suggestion.suggestion;
+        existing.evidence = suggestion.evidence;
+      }
+      existing.lastSeenAt = now;
+      existing.timesSeen = (existing.timesSeen ?? 1) + 1;
+      if (reviewId) existing.reviewIds = [...(existing.reviewIds ?? []), reviewId];
+
+      if (existing.status === 'resolved' || existing.status === 'applied') {
+        transition(existing, 'open', now, 'raised again by review');
+        result.reopened.push(existing.id);
+      }
+    }
+
+    for (const finding of current.findings) {
+      if (finding.status === 'open' && !seen.has(finding.id)) {
+        transition(finding, 'resolved', now, 'no longer raised by review');
+        result.autoResolved.push(finding.id);
+      }
     }
+
+    await this.save(current);
+    return result;
   }
 
   private async save(state: AuracoilState): Promise<void> {
@@ -75,3 +179,57 @@ export class StateManager {
     await writeFile(this.statePath, JSON.stringify(state, null, 2));
   }
 }
+
+function transition(finding: Finding, status: FindingStatus, at: string, reason?: string): void {
+  finding.status = status;
+  if (status === 'open') {
+    delete finding.resolvedAt;
+  } else {
+    finding.resolvedAt = at;
+  }
+  if (reason !== undefined) {
+    finding.reason = reason;
+  } else {
+    delete finding.reason;
+  }
+}
+
+/**
+ * Same section and near-identical wording — GPT rarely reuses ids verbatim.
+ */
+function isSameFinding(finding: Finding, suggestion: ReviewSuggestion): boolean {
+  return isSameSection(finding, suggestion) && similarity(finding.suggestion, suggestion.suggestion) >= SIMILARITY_THRESHOLD;
+}
+
+/**
+ * Same section or near-identical wording — enough to trust a reused id.
+ */
+function isSameTopic(finding: Finding, suggestion: ReviewSuggestion): boolean {
+  return isSameSection(finding, suggestion) || similarity(finding.suggestion, suggestion.suggestion) >= SIMILARITY_THRESHOLD;
+}
+
+function isSameSection(finding: Finding, suggestion: ReviewSuggestion): boolean {
+  return finding.section.trim().toLowerCase() === suggestion.section.trim().toLowerCase();
+}
+
+function similarity(a: string, b: string): number {
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+  let shared = 0;
+  for (const t of tokensA) {
+    if (tokensB.has(t)) shared++;
+  }
+  return shared / (tokensA.size + tokensB.size - shared);
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(t => t.length > 2));
+}
+
+function uniqueId(id: string, findings: Finding[]): string {
+  if (!findings.some(f => f.id === id)) return id;
+  let n = 2;
+  while (findings.some(f => f.id === `${id}-${n}`)) n++;
+  return `${id}-${n}`;
+}